@@ -136,7 +136,6 @@ export const AdminSettings: React.FC<Props> = ({ rates, setRates, library, setLi
       startDate: 0,
       span: 1,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE
     };
     setEditingItem(newItem);
@@ -68,9 +68,7 @@ const SiteCard: React.FC<SiteCardProps> = ({ site, onClick, onOpen }) => {
     
     if (baseline) {
         // Quick calc or cached metrics would be better, but we calc on fly for now
-        const cashflow = FinanceEngine.calculateMonthlyCashflow(baseline, site);
-        // Fix: Added missing 'site' argument to calculateProjectMetrics
-        const metrics = FinanceEngine.calculateProjectMetrics(cashflow, baseline.settings, site);
+        const { metrics } = FinanceEngine.calculateScenarioMetrics(baseline, site);
         margin = metrics.devMarginPct;
     }
 
@@ -192,9 +190,7 @@ const InspectorPanel: React.FC<InspectorPanelProps> = ({ site, onClose, onOpenHu
     const baseline = site.scenarios.find(s => s.isBaseline);
     let baselineMetrics = null;
     if (baseline) {
-        const cashflow = FinanceEngine.calculateMonthlyCashflow(baseline, site);
-        // Fix: Added missing 'site' argument to calculateProjectMetrics
-        baselineMetrics = FinanceEngine.calculateProjectMetrics(cashflow, baseline.settings, site);
+        baselineMetrics = FinanceEngine.calculateScenarioMetrics(baseline, site).metrics;
     }
 
     return (
@@ -1,10 +1,12 @@
 
 import React, { useMemo } from 'react';
-import { MonthlyFlow, CostCategory, FeasibilitySettings } from './types';
+import { MonthlyFlow, CostCategory, FeasibilitySettings, CovenantResult, FundingSource } from './types';
+import { FinanceEngine } from './services/financeEngine';
 
 interface Props {
   cashflow: MonthlyFlow[];
   settings: FeasibilitySettings;
+  covenants?: CovenantResult;
 }
 
 const formatAccounting = (val: number, isCurrency = true) => {
@@ -21,7 +23,18 @@ const formatAccounting = (val: number, isCurrency = true) => {
   return <span className="text-slate-700 tabular-nums font-mono">{formatted}</span>;
 };
 
-export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings }) => {
+export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings, covenants }) => {
+
+  // Breach descriptions by month, for flagging period headers
+  const breachesByMonth = useMemo(() => {
+    const map = new Map<number, string[]>();
+    covenants?.breaches.forEach(b => {
+      const notes = map.get(b.monthIndex) || [];
+      notes.push(`${b.tier === 'senior' ? 'Senior' : 'Mezz'} ${b.measure.replace('_', ' ')}: ${b.actual.toFixed(2)} vs ${b.threshold.toFixed(2)}`);
+      map.set(b.monthIndex, notes);
+    });
+    return map;
+  }, [covenants]);
   
   // Calculate Header Data Rows (Inflation & Valuation)
   const headerData = useMemo(() => {
@@ -38,10 +51,22 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
        grossRevenue: 0,
        otherIncome: 0,
        sellingCosts: 0,
+       operatingExpenses: 0,
        netRevenue: 0,
        costs: {} as Record<CostCategory, number>,
        finance: 0,
        lineFees: 0,
+       establishmentFees: 0,
+       investmentLoan: 0,
+       seniorIn: 0,
+       seniorOut: 0,
+       mezzIn: 0,
+       mezzOut: 0,
+       reserveDrawn: 0,
+       reserveInterest: 0,
+       depositsReleased: 0,
+       forfeitedDeposits: 0,
+       gstSettlement: 0,
        netProfit: 0,
        equityIn: 0,
        equityOut: 0
@@ -54,15 +79,27 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
        t.otherIncome += f.lendingInterestIncome;
        t.netRevenue += (f.grossRevenue + f.lendingInterestIncome); // Gross Inflow
        t.sellingCosts += (f.costBreakdown[CostCategory.SELLING] || 0);
+       t.operatingExpenses += f.operatingExpenses;
        
        Object.values(CostCategory).forEach(c => {
            t.costs[c] += (f.costBreakdown[c] || 0);
        });
        
-       const financePeriod = f.interestSenior + f.interestMezz + (f.costBreakdown[CostCategory.FINANCE] || 0) + f.lineFeeSenior;
+       const financePeriod = f.interestSenior + f.interestMezz + f.investmentInterest + (f.costBreakdown[CostCategory.FINANCE] || 0) + f.lineFeeSenior + f.establishmentFeeSenior + f.establishmentFeeMezz;
        t.finance += financePeriod;
        t.lineFees += f.lineFeeSenior;
+       t.establishmentFees += f.establishmentFeeSenior + f.establishmentFeeMezz;
+       t.gstSettlement += f.gstSettlement;
+       t.investmentLoan += f.drawDownInvestment;
+       t.reserveDrawn += f.drawDownReserve;
+       t.reserveInterest += f.reserveInterestPaid;
+       t.depositsReleased += f.depositsReleased;
+       t.forfeitedDeposits += f.forfeitedDeposits;
 
+       t.seniorIn += f.drawDownSenior;
+       t.seniorOut += f.repaySenior;
+       t.mezzIn += f.drawDownMezz;
+       t.mezzOut += f.repayMezz;
        t.equityIn += f.drawDownEquity;
        t.equityOut += f.repayEquity;
     });
@@ -84,6 +121,8 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
     return t;
   }, [cashflow]);
 
+  const waterfall = FinanceEngine.resolveFundingWaterfall(settings.capitalStack);
+
   // Row Component
   const Row = ({ 
     label, 
@@ -144,9 +183,15 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
            <thead className="bg-slate-50 sticky top-0 z-20 shadow-sm text-[10px] font-black text-slate-900 uppercase tracking-wider print:static">
               <tr>
                  <th className="py-3 px-4 sticky left-0 bg-slate-50 z-30 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] w-64 border-r border-slate-200">Period</th>
-                 {cashflow.map((d, i) => (
-                    <th key={i} className="py-3 px-3 text-right min-w-[100px]">{d.label}</th>
-                 ))}
+                 {cashflow.map((d, i) => {
+                    const breaches = breachesByMonth.get(d.monthIndex);
+                    return (
+                       <th key={i} className={`py-3 px-3 text-right min-w-[100px] ${breaches ? 'text-red-600 bg-red-50' : ''}`} title={breaches?.join('\n')}>
+                          {breaches && <i className="fa-solid fa-triangle-exclamation mr-1"></i>}
+                          {d.label}
+                       </th>
+                    );
+                 })}
                  <th className="py-3 px-3 text-right bg-slate-100 border-l border-slate-200 min-w-[120px]">Total</th>
               </tr>
            </thead>
@@ -172,10 +217,25 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
                   <td className="sticky left-0 bg-slate-100 z-10 py-2 px-4 text-[10px] font-bold text-slate-900 uppercase tracking-widest border-r border-slate-200">Income</td>
                   <td colSpan={cashflow.length + 1}></td>
               </tr>
-              <Row label="Gross Sales Revenue" getter={d => d.grossRevenue} total={totals.grossRevenue} />
+              <Row label="Gross Revenue" getter={d => d.grossRevenue} total={totals.grossRevenue} />
+              {totals.depositsReleased !== 0 && (
+                <Row label="incl. Deposits Released (Bond)" getter={d => d.depositsReleased} total={totals.depositsReleased} isIndent />
+              )}
+              {totals.forfeitedDeposits !== 0 && (
+                <Row label="incl. Forfeited Deposits" getter={d => d.forfeitedDeposits} total={totals.forfeitedDeposits} isIndent />
+              )}
+              {cashflow.some(d => d.depositsHeld > 0) && (
+                <Row label="Deposits Held in Trust" getter={d => d.depositsHeld} total={0} isIndent />
+              )}
+              {cashflow.some(d => d.preSaleValue > 0) && (
+                <Row label="Pre-Sales on Hand" getter={d => d.preSaleValue} total={0} isIndent />
+              )}
               <Row label="Surplus Interest" getter={d => d.lendingInterestIncome} total={totals.otherIncome} />
               <Row label="Less Selling Costs" getter={d => d.costBreakdown[CostCategory.SELLING] || 0} total={totals.sellingCosts} negative />
-              <Row label="NET REALISATION" getter={d => (d.grossRevenue + d.lendingInterestIncome) - (d.costBreakdown[CostCategory.SELLING]||0)} total={totals.grossRevenue + totals.otherIncome - totals.sellingCosts} isBold bgClass="bg-emerald-50/50" />
+              {totals.operatingExpenses !== 0 && (
+                <Row label="Less Operating Expenses" getter={d => d.operatingExpenses} total={totals.operatingExpenses} negative />
+              )}
+              <Row label="NET REALISATION" getter={d => (d.grossRevenue + d.lendingInterestIncome) - (d.costBreakdown[CostCategory.SELLING]||0) - d.operatingExpenses} total={totals.grossRevenue + totals.otherIncome - totals.sellingCosts - totals.operatingExpenses} isBold bgClass="bg-emerald-50/50" />
 
               {/* DEVELOPMENT COSTS */}
               <tr className="bg-slate-100 border-y border-slate-200">
@@ -187,11 +247,14 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
               <Row label="Consultants" getter={d => d.costBreakdown[CostCategory.CONSULTANTS] || 0} total={totals.costs[CostCategory.CONSULTANTS]} negative />
               <Row label="Statutory Fees" getter={d => d.costBreakdown[CostCategory.STATUTORY] || 0} total={totals.costs[CostCategory.STATUTORY]} negative />
               <Row label="Miscellaneous" getter={d => d.costBreakdown[CostCategory.MISCELLANEOUS] || 0} total={totals.costs[CostCategory.MISCELLANEOUS]} negative />
+              {totals.gstSettlement !== 0 && (
+                <Row label="BAS Settlement (GST)" getter={d => d.gstSettlement} total={totals.gstSettlement} negative />
+              )}
 
               {/* CASHFLOW BOTTOM LINE */}
               <Row 
                 label="NET FLOW (Pre-Finance)" 
-                getter={d => d.netCashflow + d.interestSenior + d.interestMezz + d.lineFeeSenior} 
+                getter={d => d.netCashflow + d.interestSenior + d.interestMezz + d.investmentInterest + d.lineFeeSenior + d.establishmentFeeSenior + d.establishmentFeeMezz} 
                 total={totals.netProfit + totals.finance} 
                 isBold 
                 bgClass="bg-indigo-50 border-t-2 border-indigo-200 text-indigo-900" 
@@ -202,11 +265,31 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
               {/* FINANCE & DEBT TRACKING */}
               <tr className="bg-slate-100 border-y border-slate-200">
                   <td className="sticky left-0 bg-slate-100 z-10 py-2 px-4 text-[10px] font-bold text-slate-900 uppercase tracking-widest border-r border-slate-200">Debt & Equity Analysis</td>
-                  <td colSpan={cashflow.length + 1}></td>
+                  <td colSpan={cashflow.length + 1} className="py-2 px-3 text-[10px] font-bold text-slate-500 whitespace-nowrap">
+                    Draw: {waterfall.drawOrder.join(' → ')} &nbsp;|&nbsp; Repay: {waterfall.repaymentOrder.join(' → ')}
+                    {waterfall.debtSweepPct < 100 && ` (${waterfall.debtSweepPct}% sweep to debt)`}
+                  </td>
               </tr>
               
               <Row label="Net Outlay (Net Flow)" getter={d => d.netCashflow} total={totals.netProfit} isBold />
-              <Row label="Equity Input" getter={d => d.drawDownEquity} total={totals.equityIn} negative />
+              {/* Funding rows follow the configured waterfall */}
+              {waterfall.drawOrder.map(source => (
+                source === FundingSource.EQUITY
+                  ? <Row key={source} label="Equity Input" getter={d => d.drawDownEquity} total={totals.equityIn} negative />
+                  : source === FundingSource.SENIOR
+                    ? <Row key={source} label="Senior Drawdown" getter={d => d.drawDownSenior} total={totals.seniorIn} isIndent />
+                    : <Row key={source} label="Mezzanine Drawdown" getter={d => d.drawDownMezz} total={totals.mezzIn} isIndent />
+              ))}
+              {waterfall.repaymentOrder.map(source => (
+                source === FundingSource.EQUITY
+                  ? <Row key={source} label="Equity Distributions" getter={d => d.repayEquity} total={totals.equityOut} isIndent />
+                  : source === FundingSource.SENIOR
+                    ? <Row key={source} label="Senior Repayment" getter={d => d.repaySenior} total={totals.seniorOut} isIndent negative />
+                    : <Row key={source} label="Mezzanine Repayment" getter={d => d.repayMezz} total={totals.mezzOut} isIndent negative />
+              ))}
+              {totals.investmentLoan !== 0 && (
+                <Row label="Investment Loan (Refinance)" getter={d => d.drawDownInvestment} total={totals.investmentLoan} />
+              )}
               
               <tr className="border-b border-slate-100 hover:bg-blue-50/10 transition-colors">
                   <td className="sticky left-0 z-10 py-2 px-4 text-xs whitespace-nowrap bg-white border-r border-slate-200 text-slate-600 pl-8">
@@ -227,8 +310,29 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
                   <td className="bg-slate-50 border-l border-slate-200"></td>
               </tr>
 
+              <tr className="border-b border-slate-100">
+                  <td className="sticky left-0 z-10 py-2 px-4 text-xs whitespace-nowrap bg-white border-r border-slate-200 text-slate-600 pl-8">
+                    Applied Rate (Senior / Mezz)
+                  </td>
+                  {cashflow.map((d, i) => (
+                     <td key={i} className="py-2 px-3 text-right text-[10px] whitespace-nowrap font-mono text-slate-400">
+                        {d.rateSenior.toFixed(2)}% / {d.rateMezz.toFixed(2)}%
+                     </td>
+                  ))}
+                  <td className="bg-slate-50 border-l border-slate-200"></td>
+              </tr>
+
+              {totals.reserveDrawn !== 0 && (
+                <>
+                  <Row label="Interest Reserve Drawn" getter={d => d.drawDownReserve} total={totals.reserveDrawn} isIndent />
+                  <Row label="Interest Paid from Reserve" getter={d => d.reserveInterestPaid} total={totals.reserveInterest} isIndent negative />
+                  <Row label="Reserve Balance" getter={d => d.balanceReserve} total={0} isIndent />
+                </>
+              )}
+
+              <Row label="Establishment Fees" getter={d => d.establishmentFeeSenior + d.establishmentFeeMezz} total={totals.establishmentFees} />
               <Row label="Line Fees" getter={d => d.lineFeeSenior} total={totals.lineFees} />
-              <Row label="Interest Charged" getter={d => d.interestSenior + d.interestMezz} total={totals.finance - totals.lineFees} />
+              <Row label="Interest Charged" getter={d => d.interestSenior + d.interestMezz + d.investmentInterest} total={totals.finance - totals.lineFees - totals.establishmentFees} />
               
               <tr className="bg-slate-900 text-white border-t-4 border-double border-slate-600">
                   <td className="sticky left-0 bg-slate-900 z-10 py-3 px-4 text-xs font-bold uppercase tracking-wider border-r border-slate-700 shadow-[2px_0_10px_rgba(0,0,0,0.5)]">
@@ -236,12 +340,35 @@ export const ConsolidatedCashflowReport: React.FC<Props> = ({ cashflow, settings
                   </td>
                   {cashflow.map((d, i) => (
                      <td key={i} className="py-3 px-3 text-right text-xs font-mono font-bold whitespace-nowrap text-red-400">
-                        {formatAccounting(d.balanceSenior + d.balanceMezz)}
+                        {formatAccounting(d.balanceSenior + d.balanceMezz + d.balanceInvestment)}
                      </td>
                   ))}
                   <td className="bg-slate-800"></td>
               </tr>
 
+              {cashflow.some(d => d.balanceCash > 0) && (
+                <Row label="Cash Account Balance" getter={d => d.balanceCash} total={0} bgClass="bg-emerald-50/50" />
+              )}
+
+              {covenants?.hasCovenants && (
+                <tr className="border-b border-slate-100">
+                    <td className="sticky left-0 z-10 py-2 px-4 text-xs whitespace-nowrap bg-white border-r border-slate-200 font-bold text-slate-900">
+                      Covenant Compliance
+                    </td>
+                    {cashflow.map((d, i) => {
+                       const breaches = breachesByMonth.get(d.monthIndex);
+                       return (
+                          <td key={i} className={`py-2 px-3 text-right text-[10px] font-bold uppercase whitespace-nowrap ${breaches ? 'text-red-600 bg-red-50' : 'text-emerald-600'}`} title={breaches?.join('\n')}>
+                             {breaches ? `Breach (${breaches.length})` : 'OK'}
+                          </td>
+                       );
+                    })}
+                    <td className="py-2 px-3 text-right text-xs font-bold bg-slate-50 border-l border-slate-200 text-slate-700">
+                       {breachesByMonth.size} mths
+                    </td>
+                </tr>
+              )}
+
            </tbody>
         </table>
       </div>
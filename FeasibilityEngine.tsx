@@ -2,10 +2,12 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { LineItem, RevenueItem, CostCategory, DistributionMethod, InputType, ScenarioStatus, GstTreatment, SmartRates, TaxConfiguration } from './types';
 import { Site, FeasibilityScenario, FeasibilitySettings } from './types-v2';
 import { ReportService } from './services/reportModel';
+import { FinanceEngine } from './services/financeEngine';
 import { SolverService } from './services/solverService';
 import { SensitivityMatrix } from './SensitivityMatrix';
 import { FeasibilityInputGrid } from './FeasibilityInputGrid';
 import { RevenueInputGrid } from './RevenueInputGrid';
+import { UnitMixGrid } from './UnitMixGrid';
 import { HoldStrategySettings } from './components/HoldStrategySettings';
 import { InvestmentSettings } from './components/InvestmentSettings';
 import { FeasibilityReport } from './FeasibilityReport';
@@ -68,8 +70,12 @@ const StickyKpiHeader = ({ stats, strategy, siteName }: { stats: any, strategy:
               <span className="text-[9px] md:text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center">
                   IRR <span className="hidden md:inline"><HelpTooltip term="IRR" className="ml-1 text-slate-300" /></span>
               </span>
-              <span className="text-sm md:text-lg font-black font-mono leading-none text-indigo-600">
+              <span
+                className="text-sm md:text-lg font-black font-mono leading-none text-indigo-600"
+                title={stats.irrDiagnostics?.equity.reason}
+              >
                   {stats.equityIRR !== null ? stats.equityIRR.toFixed(1) + '%' : 'N/A'}
+                  {stats.irrDiagnostics?.equity.status === 'MULTIPLE_ROOTS' && <i className="fa-solid fa-triangle-exclamation text-amber-500 text-[10px] ml-1"></i>}
               </span>
           </div>
           {strategy === 'SELL' && (
@@ -121,6 +127,10 @@ export const FeasibilityEngine: React.FC<Props> = ({
       includeSummary: true,
       includeAssetFactSheet: true,
       includePnL: true,
+      includeGstReport: true,
+      includeJvWaterfall: true,
+      includeCovenants: true,
+      includeProductMix: true,
       includeSensitivity: true,
       includeCashflow: true
   });
@@ -134,12 +144,10 @@ export const FeasibilityEngine: React.FC<Props> = ({
   const isInitialized = useRef(false);
 
   // Find Linked Scenario if applicable
-  const linkedScenario = useMemo(() => {
-      if (activeScenario.strategy === 'HOLD' && activeScenario.linkedSellScenarioId) {
-          return site.scenarios.find(s => s.id === activeScenario.linkedSellScenarioId);
-      }
-      return undefined;
-  }, [activeScenario, site.scenarios]);
+  const linkedScenario = useMemo(
+    () => FinanceEngine.findLinkedScenario(activeScenario, site.scenarios),
+    [activeScenario, site.scenarios]
+  );
 
   // Helper: Construct Current State as Scenario Object
   const currentScenarioState: FeasibilityScenario = useMemo(() => ({
@@ -150,6 +158,12 @@ export const FeasibilityEngine: React.FC<Props> = ({
     updatedAt: new Date().toISOString()
   }), [activeScenario, settings, costs, revenues]);
 
+  // Linked Hold scenarios report on the development basis of their Sell scenario
+  const reportScenario = useMemo(
+    () => FinanceEngine.resolveLinkedScenario(currentScenarioState, linkedScenario),
+    [currentScenarioState, linkedScenario]
+  );
+
   // Sync back to parent when local state changes
   useEffect(() => {
     if (!isInitialized.current) {
@@ -180,6 +194,11 @@ export const FeasibilityEngine: React.FC<Props> = ({
   const cashflow = report.cashflow.monthly;
   const metrics = report.metrics;
 
+  const fundingBasis = useMemo(
+    () => FinanceEngine.resolveFundingBasis(reportScenario, site, taxScales),
+    [reportScenario, site, taxScales]
+  );
+
   const stats = useMemo(() => {
     // Augment Metrics with specific chart data
     let maxSenior = 0;
@@ -189,7 +208,7 @@ export const FeasibilityEngine: React.FC<Props> = ({
         if (c.balanceMezz > maxMezz) maxMezz = c.balanceMezz;
     });
 
-    const constructionTotal = costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a,b)=>a+b.amount,0);
+    const constructionTotal = reportScenario.costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a,b)=>a+b.amount,0);
 
     return {
         ...metrics,
@@ -207,7 +226,7 @@ export const FeasibilityEngine: React.FC<Props> = ({
         constructionTotal: constructionTotal,
         interestTotal: metrics.totalFinanceCost
     };
-  }, [cashflow, costs, metrics]);
+  }, [cashflow, reportScenario, metrics]);
 
   const handleUpdateCost = (id: string, field: keyof LineItem, value: any) => {
     if (!isEditable) return;
@@ -226,7 +245,6 @@ export const FeasibilityEngine: React.FC<Props> = ({
       startDate: 0,
       span: 12,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE
     };
     setCosts([...costs, newItem]);
@@ -282,7 +300,7 @@ export const FeasibilityEngine: React.FC<Props> = ({
             // 3. Generate PDF with current configuration
             await PdfService.generateBoardReport(
                 site,
-                currentScenarioState,
+                reportScenario,
                 report,
                 site.identity,
                 sensitivityMatrix,
@@ -523,6 +541,23 @@ export const FeasibilityEngine: React.FC<Props> = ({
                                 <span className="text-[9px] text-slate-400">{stats.peakDebtDate}</span>
                              </div>
                           </div>
+                          <div className="flex justify-between items-center py-2 border-b border-slate-100">
+                             <span className="text-xs font-bold text-slate-600">Peak LTC / LVR</span>
+                             <span className="text-sm font-black text-slate-800">{stats.ltc.toFixed(1)}% / {stats.lvr.toFixed(1)}%</span>
+                          </div>
+                          <div className="flex justify-between items-center py-2 border-b border-slate-100">
+                             <span className="text-xs font-bold text-slate-600">Lender Covenants</span>
+                             {!report.covenants.hasCovenants ? (
+                                <span className="text-xs font-bold text-slate-400">None Set</span>
+                             ) : report.covenants.breaches.length === 0 ? (
+                                <span className="text-sm font-black text-emerald-600"><i className="fa-solid fa-circle-check mr-1"></i>Compliant</span>
+                             ) : (
+                                <div className="text-right">
+                                   <span className="block text-sm font-black text-red-600"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{report.covenants.months.filter(m => m.breached).length} Breach Months</span>
+                                   <span className="text-[9px] text-slate-400">First: {report.covenants.breaches[0].label} ({report.covenants.breaches[0].measure.replace('_', ' ')})</span>
+                                </div>
+                             )}
+                          </div>
                       </div>
                     </div>
                     <SensitivityMatrix settings={settings as any} costs={costs} revenues={revenues} site={site} />
@@ -559,24 +594,29 @@ export const FeasibilityEngine: React.FC<Props> = ({
                                 <p className="font-mono font-bold text-slate-800">${(site.acquisition.purchasePrice/1e6).toFixed(2)}m</p>
                             </div>
                         </div>
+                        <p className="text-xs text-slate-500 mt-4">
+                            Development costs, programme and funding are maintained in <strong>{linkedScenario.name}</strong> and update this model automatically.
+                        </p>
                     </div>
                 )}
 
-                <FeasibilityInputGrid 
-                  costs={costs} 
-                  settings={settings as any} 
-                  constructionTotal={stats.constructionTotal}
-                  estimatedRevenue={stats.totalIn}
-                  onUpdate={handleUpdateCost} 
-                  onAdd={handleAddCost} 
-                  onBulkAdd={handleBulkAddCosts}
-                  onRemove={handleRemoveCost} 
-                  smartRates={smartRates}
-                  libraryData={libraryData}
-                  landArea={site.identity.landArea} 
-                  strategy={isHoldStrategy ? 'HOLD' : 'SELL'}
-                  site={site} 
-                />
+                {!(isHoldStrategy && linkedScenario) && (
+                  <FeasibilityInputGrid 
+                    costs={costs} 
+                    settings={settings as any} 
+                    constructionTotal={stats.constructionTotal}
+                    estimatedRevenue={stats.totalIn}
+                    onUpdate={handleUpdateCost} 
+                    onAdd={handleAddCost} 
+                    onBulkAdd={handleBulkAddCosts}
+                    onRemove={handleRemoveCost} 
+                    smartRates={smartRates}
+                    libraryData={libraryData}
+                    landArea={site.identity.landArea} 
+                    strategy={isHoldStrategy ? 'HOLD' : 'SELL'}
+                    site={site} 
+                  />
+                )}
               </div>
             )}
 
@@ -589,6 +629,7 @@ export const FeasibilityEngine: React.FC<Props> = ({
                         onUpdate={setSettings as any} 
                         peakEquityRequired={stats.peakEquity}
                         projectLocation={site.identity.address} 
+                        fundingBasis={fundingBasis}
                     />
                 </div>
             )}
@@ -596,6 +637,14 @@ export const FeasibilityEngine: React.FC<Props> = ({
             {/* TAB: SALES or RENTAL REVENUE */}
             {((activeTab === 'sales' && !isHoldStrategy) || (activeTab === 'rent' && isHoldStrategy)) && (
               <div className="space-y-8 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  {!isHoldStrategy && (
+                    <UnitMixGrid
+                      settings={settings}
+                      setSettings={setSettings}
+                      setRevenues={setRevenues}
+                      inputScale={settings.inputScale}
+                    />
+                  )}
                   <RevenueInputGrid 
                     revenues={revenues} 
                     setRevenues={setRevenues} 
@@ -632,13 +681,13 @@ export const FeasibilityEngine: React.FC<Props> = ({
                 <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
                     {reportSubTab === 'pnl' && (
                       <FeasibilityReport 
-                          scenario={currentScenarioState} 
+                          scenario={reportScenario} 
                           site={site}
                           stats={stats} 
                           onNavigate={handleReportNavigation}
                       />
                     )}
-                    {reportSubTab === 'cashflow' && <ConsolidatedCashflowReport cashflow={cashflow} settings={settings as any} />}
+                    {reportSubTab === 'cashflow' && <ConsolidatedCashflowReport cashflow={cashflow} settings={settings as any} covenants={report.covenants} />}
                 </div>
               </div>
             )}
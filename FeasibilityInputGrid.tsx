@@ -72,6 +72,21 @@ const DebouncedInput = ({
   );
 };
 
+// --- Milestone payment schedule <-> "month:pct" text ---
+const formatMilestones = (milestones?: Record<number, number>): string =>
+  Object.entries(milestones || {}).map(([month, pct]) => `${month}:${pct}`).join(', ');
+
+const parseMilestones = (text: string): Record<number, number> => {
+  const schedule: Record<number, number> = {};
+  text.split(',').forEach(pair => {
+    const [month, pct] = pair.split(':').map(v => parseFloat(v));
+    if (Number.isFinite(month) && month >= 0 && Number.isFinite(pct) && pct > 0) {
+      schedule[Math.floor(month)] = (schedule[Math.floor(month)] || 0) + pct;
+    }
+  });
+  return schedule;
+};
+
 // --- SUB-COMPONENT: COST SECTION ---
 const CostSection: React.FC<{
   title: string;
@@ -98,6 +113,7 @@ const CostSection: React.FC<{
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
 
   const sectionCosts = costs.filter(c => categories.includes(c.category));
+  const timeline = FinanceEngine.resolveProjectTimeline(settings, costs, site);
   
   const sectionTotal = sectionCosts.reduce((acc, item) => {
     const amount = FinanceEngine.calculateLineItemTotal(item, settings, site, constructionTotal, estimatedRevenue, taxScales);
@@ -175,6 +191,7 @@ const CostSection: React.FC<{
                     item={item} 
                     settings={settings} 
                     site={site} // Pass site
+                    timeline={timeline}
                     constructionTotal={constructionTotal} 
                     totalRevenue={estimatedRevenue} 
                   />
@@ -199,6 +216,36 @@ const CostSection: React.FC<{
                  </select>
               </div>
 
+              {!isOperatingLedger && item.category === CostCategory.SELLING && (
+                  <div className="space-y-1">
+                     <label className="text-[10px] font-bold uppercase text-slate-500 flex items-center">
+                        Sales Link
+                        <i className="fa-solid fa-handshake ml-1.5 text-indigo-400"></i>
+                     </label>
+                     <select
+                        value={item.specialTag || 'NONE'}
+                        onChange={(e) => onUpdate(item.id, 'specialTag', e.target.value === 'NONE' ? undefined : e.target.value as LineItemTag)}
+                        className="w-full bg-white border border-slate-200 rounded text-xs font-bold py-1.5 text-slate-700"
+                     >
+                        <option value="NONE">Own Phasing</option>
+                        <option value="AGENT_FEE">Agent Commission (Exchange / Settlement)</option>
+                        <option value="LEGAL_SALES">Conveyancing (Per Settlement)</option>
+                     </select>
+                  </div>
+              )}
+
+              {!isOperatingLedger && item.category === CostCategory.SELLING && item.specialTag === 'AGENT_FEE' && (
+                  <div className="space-y-1">
+                     <label className="text-[10px] font-bold uppercase text-slate-500">Paid at Exchange (%)</label>
+                     <input
+                       type="number"
+                       value={item.exchangePct ?? 0}
+                       onChange={(e) => onUpdate(item.id, 'exchangePct', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                       className="w-full bg-white border border-slate-200 rounded px-2 py-1.5 text-xs font-bold font-mono"
+                     />
+                  </div>
+              )}
+
               {!isOperatingLedger && (
                   <div className="space-y-1">
                      <label className="text-[10px] font-bold uppercase text-slate-500 flex items-center">
@@ -223,6 +270,9 @@ const CostSection: React.FC<{
                      <div className="space-y-1">
                         <label className="text-[10px] font-bold uppercase text-slate-500">
                             {item.linkToMilestone ? 'Offset (Mo)' : 'Start Month'}
+                            {item.linkToMilestone && item.linkToMilestone !== MilestoneLink.MANUAL && (
+                                <span className="ml-1 normal-case font-medium text-indigo-500">→ Month {FinanceEngine.resolveLineItemStart(item, timeline)}</span>
+                            )}
                         </label>
                         <input 
                           type="number" 
@@ -257,6 +307,46 @@ const CostSection: React.FC<{
                   </div>
               )}
 
+              {!isOperatingLedger && item.method === DistributionMethod.S_CURVE && (
+                  <div className="space-y-1">
+                     <label className="text-[10px] font-bold uppercase text-slate-500">Curve Steepness</label>
+                     <input
+                       type="number"
+                       step="1"
+                       value={item.sCurveSteepness || ''}
+                       onChange={(e) => onUpdate(item.id, 'sCurveSteepness', parseFloat(e.target.value) || undefined)}
+                       className="w-full bg-white border border-slate-200 rounded px-2 py-1.5 text-xs font-bold font-mono"
+                       placeholder="Default (12)"
+                     />
+                  </div>
+              )}
+
+              {!isOperatingLedger && item.method === DistributionMethod.MILESTONE && (
+                  <div className="space-y-1">
+                     <label className="text-[10px] font-bold uppercase text-slate-500">Payments (Month:%)</label>
+                     <DebouncedInput
+                       value={formatMilestones(item.milestones)}
+                       onChange={(val) => onUpdate(item.id, 'milestones', parseMilestones(val.toString()))}
+                       className="w-full bg-white border border-slate-200 rounded px-2 py-1.5 text-xs font-bold font-mono"
+                       placeholder="0:10, 6:40, 12:40, 18:10"
+                     />
+                  </div>
+              )}
+
+              {!isOperatingLedger && (
+                  <div className="space-y-1">
+                     <label className="text-[10px] font-bold uppercase text-slate-500">Escalation (% p.a.)</label>
+                     <input
+                       type="number"
+                       step="0.1"
+                       value={item.escalationRate ?? ''}
+                       onChange={(e) => onUpdate(item.id, 'escalationRate', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                       className="w-full bg-white border border-slate-200 rounded px-2 py-1.5 text-xs font-bold font-mono"
+                       placeholder={`Global (${FinanceEngine.resolveEscalationRate({ ...item, escalationRate: undefined }, settings)}%)`}
+                     />
+                  </div>
+              )}
+
               <div className="space-y-1">
                  <label className="text-[10px] font-bold uppercase text-slate-500">GST Treatment</label>
                  <select 
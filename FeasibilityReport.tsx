@@ -1,8 +1,9 @@
 
 import React, { useMemo, useState } from 'react';
-import { CostCategory, LineItem, GstTreatment, ProjectMetrics } from './types';
+import { CostCategory, LineItem, ProjectMetrics } from './types';
 import { FeasibilityScenario, Site } from './types-v2';
 import { FinanceEngine } from './services/financeEngine';
+import { GstService } from './services/gstService';
 import { SensitivityService } from './services/sensitivityService';
 import { HelpTooltip } from './components/HelpTooltip';
 
@@ -30,16 +31,18 @@ const useDetailedCosts = (scenario: FeasibilityScenario, site: Site) => {
       .reduce((acc, c) => acc + c.amount, 0);
 
     // Revenue for % calculations
-    const totalRevenue = scenario.revenues.reduce((acc, r) => acc + (r.units * r.pricePerUnit), 0);
+    const totalRevenue = scenario.revenues.reduce((acc, r) => acc + FinanceEngine.calculateSaleValue(r), 0);
+    const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    const horizon = Math.max(scenario.settings.durationMonths, FinanceEngine.resolveHoldExitMonth(scenario, timeline) ?? 0);
+    const salesProgramme = FinanceEngine.resolveSalesProgramme(scenario, timeline, horizon);
 
     return scenario.costs.map(item => {
-      const netAmount = FinanceEngine.calculateLineItemTotal(item, scenario.settings, site, constructionSum, totalRevenue);
+      // Escalated schedule total, so the P&L reconciles with the cashflow
+      const netAmount = FinanceEngine.calculateLineItemFlows(item, scenario.settings, site, constructionSum, totalRevenue, timeline, undefined, salesProgramme)
+        .reduce((acc, v) => acc + v, 0);
       
       // Calculate GST
-      let gstAmount = 0;
-      if (item.gstTreatment === GstTreatment.TAXABLE) {
-        gstAmount = netAmount * (scenario.settings.gstRate / 100);
-      }
+      const gstAmount = GstService.calculateInputTax(netAmount, item.gstTreatment, GstService.getRate(scenario.settings));
       
       return {
         ...item,
@@ -137,7 +140,10 @@ const ValuerReport = ({ scenario, stats, detailedCosts, onNavigate, site }: { sc
         <div className="mb-8">
             <h3 className="text-sm font-black text-slate-900 uppercase border-b-2 border-slate-200 pb-1 mb-2">1. Gross Realisation</h3>
             <Row label="Gross Sales Revenue (Inc. GST)" value={stats.grossRealisation} onClick={() => onNavigate?.('sales')} highlight />
-            <Row label="Less: GST Liability (1/11th)" value={stats.gstOnSales} negative indent />
+            <Row label={scenario.settings.useMarginScheme ? "Less: GST Liability (Margin Scheme)" : `Less: GST Liability (${scenario.settings.gstRate}%)`} value={stats.gstOnSales} negative indent />
+            {stats.sellingCommission > 0 && (
+                <Row label="Less: Sales Commission" value={stats.sellingCommission} negative indent />
+            )}
             <div className="flex justify-between items-center py-2 mt-1 border-t-2 border-slate-800 bg-slate-50/50">
                 <span className="font-black text-sm uppercase pl-2">Net Realisation (Ex GST)</span>
                 <span className="font-black text-sm font-mono pr-0">{formatCurrency(stats.netRealisation)}</span>
@@ -235,11 +241,15 @@ const ValuerReport = ({ scenario, stats, detailedCosts, onNavigate, site }: { sc
 // --- HOLD REPORT ---
 const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario, site: Site, stats: ProjectMetrics }) => {
     
+    const cashflow = useMemo(() => FinanceEngine.calculateMonthlyCashflow(scenario, site), [scenario, site]);
+
     // Generate an Annual Summary for the Hold Period
     const annualData = useMemo(() => {
-        const cashflow = FinanceEngine.calculateMonthlyCashflow(scenario, site);
-        const refiMonth = scenario.settings.holdStrategy?.refinanceMonth || 0;
-        const opFlows = cashflow.slice(refiMonth); // Start from operating phase
+        // Takeout as executed by the engine, which holds it back until construction completes
+        const takeout = cashflow.findIndex(f => f.drawDownInvestment > 0);
+        const refiMonth = takeout >= 0 ? takeout : scenario.settings.holdStrategy?.refinanceMonth || 0;
+        const exitMonth = stats.hold ? stats.hold.exitMonth : cashflow.length - 1;
+        const opFlows = cashflow.slice(refiMonth, exitMonth + 1); // Operating phase, up to the terminal sale
         
         const years: any[] = [];
         let yearIndex = 1;
@@ -249,8 +259,8 @@ const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario,
             const chunk = opFlows.slice(i, i + 12);
             if (chunk.length === 0) break;
 
-            const yearGross = chunk.reduce((acc, c) => acc + c.grossRevenue, 0);
-            const yearOpex = chunk.reduce((acc, c) => acc + (c.costBreakdown[CostCategory.MISCELLANEOUS] || 0), 0);
+            const yearGross = chunk.reduce((acc, c) => acc + c.grossRevenue - c.terminalSale, 0);
+            const yearOpex = chunk.reduce((acc, c) => acc + c.operatingExpenses, 0);
             // Sum explicit Land Tax if tracked, otherwise 0
             const yearLandTax = chunk.reduce((acc, c) => acc + (c.landTaxLiability || 0), 0);
             const yearDepreciation = chunk.reduce((acc, c) => acc + (c.depreciation || 0), 0);
@@ -273,10 +283,15 @@ const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario,
             });
         }
         return years.slice(0, 10); // Show max 10 years
-    }, [scenario, site]);
+    }, [scenario, cashflow, stats.hold]);
+
+    const depreciationSchedule = useMemo(
+        () => FinanceEngine.generateDepreciationSchedule(scenario, site, cashflow).slice(0, 10),
+        [scenario, site, cashflow]
+    );
 
-    // Calculate Exit Metrics
-    const exitValuation = annualData.length > 0 ? (annualData[annualData.length - 1].netIncome / ((scenario.settings.holdStrategy?.terminalCapRate || 5) / 100)) : 0;
+    const holdYears = scenario.settings.holdStrategy?.holdPeriodYears || 10;
+    const leveredIRR = stats.hold ? stats.hold.leveredIRR : stats.equityIRR;
 
     return (
         <div className="font-sans text-slate-900 max-w-5xl mx-auto">
@@ -290,14 +305,14 @@ const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario,
                         Build to Rent
                     </div>
                     <div className="text-3xl font-black text-indigo-600 tracking-tighter">
-                        {stats.equityIRR !== null ? stats.equityIRR.toFixed(2) + '%' : 'N/A'}
+                        {leveredIRR !== null ? leveredIRR.toFixed(2) + '%' : 'N/A'}
                     </div>
-                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Equity IRR (10 Yr)</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Levered IRR ({holdYears} Yr)</p>
                 </div>
             </div>
 
             {/* Hold Metrics */}
-            <div className="grid grid-cols-4 gap-6 mb-8">
+            <div className="grid grid-cols-3 gap-6 mb-8">
                 <div className="bg-slate-50 p-4 rounded border border-slate-100">
                     <p className="text-[10px] font-bold text-slate-400 uppercase">Initial Yield</p>
                     <p className="text-xl font-bold text-slate-800">
@@ -305,15 +320,27 @@ const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario,
                     </p>
                 </div>
                 <div className="bg-slate-50 p-4 rounded border border-slate-100">
-                    <p className="text-[10px] font-bold text-slate-400 uppercase">10 Yr Cash Multiple</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Cash-on-Cash Yield</p>
+                    <p className="text-xl font-bold text-slate-800">
+                        {(stats.hold?.cashOnCashYield || 0).toFixed(2)}%
+                    </p>
+                </div>
+                <div className="bg-slate-50 p-4 rounded border border-slate-100">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">{holdYears} Yr Equity Multiple</p>
                     <p className="text-xl font-bold text-slate-800">
-                        {(stats.netRevenue / stats.totalDevelopmentCost).toFixed(2)}x
+                        {(stats.hold?.equityMultiple || 0).toFixed(2)}x
                     </p>
                 </div>
                 <div className="bg-slate-50 p-4 rounded border border-slate-100">
                     <p className="text-[10px] font-bold text-slate-400 uppercase">Terminal Value (ISP)</p>
                     <p className="text-xl font-bold text-emerald-600">
-                        {formatCurrency(exitValuation)}
+                        {formatCurrency(stats.hold?.terminalValue || 0)}
+                    </p>
+                </div>
+                <div className="bg-slate-50 p-4 rounded border border-slate-100">
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">Unlevered IRR / Dev. Margin</p>
+                    <p className="text-xl font-bold text-slate-800">
+                        {stats.hold?.unleveredIRR != null ? stats.hold.unleveredIRR.toFixed(2) + '%' : 'N/A'} / {stats.devMarginPct.toFixed(2)}%
                     </p>
                 </div>
                 <div className="bg-slate-50 p-4 rounded border border-slate-100">
@@ -361,9 +388,42 @@ const HoldReport = ({ scenario, site, stats }: { scenario: FeasibilityScenario,
                 </table>
             </div>
             
+            {depreciationSchedule.length > 0 && (
+                <>
+                    <h3 className="text-sm font-black text-slate-900 uppercase border-b-2 border-slate-200 pb-1 mb-4 mt-8">Tax Depreciation Schedule</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-right text-xs">
+                            <thead className="bg-slate-50 border-b-2 border-slate-200 text-[10px] font-black uppercase text-slate-500">
+                                <tr>
+                                    <th className="px-4 py-3 text-left">Period</th>
+                                    <th className="px-4 py-3">Capital Works (Div 43)</th>
+                                    <th className="px-4 py-3">Plant & Equip (Div 40)</th>
+                                    <th className="px-4 py-3 font-bold border-l border-slate-200">Total Deduction</th>
+                                    <th className="px-4 py-3 text-slate-400 border-l border-slate-200">Closing WDV (Div 43 / Div 40)</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                                {depreciationSchedule.map((row) => (
+                                    <tr key={row.year} className="hover:bg-slate-50 transition-colors">
+                                        <td className="px-4 py-3 text-left font-bold text-slate-700">Year {row.year}</td>
+                                        <td className="px-4 py-3 font-mono text-slate-600">{formatCurrency(row.capitalWorks)}</td>
+                                        <td className="px-4 py-3 font-mono text-slate-600">{formatCurrency(row.plant)}</td>
+                                        <td className="px-4 py-3 font-mono font-black text-slate-800 border-l border-slate-200">{formatCurrency(row.total)}</td>
+                                        <td className="px-4 py-3 font-mono text-slate-400 border-l border-slate-200">
+                                            {formatCurrency(row.closingCapitalWorks)} / {formatCurrency(row.closingPlant)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+
             <div className="mt-6 p-4 bg-slate-50 rounded border border-slate-200 text-[10px] text-slate-500 space-y-2">
                 <p><span className="font-bold uppercase">Dynamic Statutory Logic:</span> Land Tax is recalculated annually based on the projected Statutory Land Value (AUV) appreciating at {scenario.settings.growth?.landAppreciation || 3}% p.a. Brackets adjust dynamically based on 2024/25 {site.acquisition.stampDutyState} progressive tax scales.</p>
-                <p><span className="font-bold uppercase">Terminal Value:</span> Calculated as Net Operating Income in Year 10 divided by the Terminal Capitalisation Rate of {scenario.settings.holdStrategy?.terminalCapRate}%.</p>
+                <p><span className="font-bold uppercase">Terminal Value:</span> Sale at the end of year {holdYears} on the following year's stabilised Net Operating Income at the Terminal Capitalisation Rate of {scenario.settings.holdStrategy?.terminalCapRate}%, less selling costs.</p>
+                <p><span className="font-bold uppercase">Depreciation:</span> Construction cost split {scenario.settings.holdStrategy?.depreciationSplit.capitalWorksPct}% capital works (Div 43, 2.5% prime cost) and {scenario.settings.holdStrategy?.depreciationSplit.plantPct}% plant & equipment (Div 40, diminishing value at 20% on a 10 year effective life), claimed from practical completion.</p>
             </div>
         </div>
     );
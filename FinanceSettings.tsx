@@ -2,7 +2,7 @@
 import React, { useState } from 'react';
 import { 
   FeasibilitySettings, DebtLimitMethod, InterestRateMode, FeeBase, EquityMode, 
-  CapitalTier, DatedRate, DatedAmount
+  CapitalTier, DatedRate, DatedAmount, JvPromoteTier, FundingBasis, FundingSource, FundingWaterfall
 } from './types';
 import { Site } from './types-v2';
 import { FinanceEngine } from './services/financeEngine';
@@ -13,6 +13,7 @@ interface Props {
   onUpdate: (newSettings: FeasibilitySettings) => void;
   peakEquityRequired?: number;
   projectLocation?: string; 
+  fundingBasis?: FundingBasis;
 }
 
 // --- Extracted Components ---
@@ -74,6 +75,58 @@ const VariableRateTable = ({ rates, onChange }: { rates: DatedRate[], onChange:
   );
 };
 
+const PromoteTiersTable = ({ tiers, onChange }: { tiers: JvPromoteTier[], onChange: (t: JvPromoteTier[]) => void }) => {
+  const addRow = () => {
+    const newId = Math.random().toString(36).substr(2, 9);
+    const lastHurdle = tiers.length > 0 ? tiers[tiers.length-1].hurdleIrrPct : 10;
+    onChange([...tiers, { id: newId, hurdleIrrPct: lastHurdle + 5, partnerSharePct: 0 }]);
+  };
+  const updateRow = (id: string, field: 'hurdleIrrPct' | 'partnerSharePct', val: number) => {
+    onChange(tiers.map(t => t.id === id ? { ...t, [field]: val } : t));
+  };
+  const removeRow = (id: string) => {
+    onChange(tiers.filter(t => t.id !== id));
+  };
+
+  return (
+     <div className="border border-slate-200 rounded-lg overflow-hidden mt-3">
+       <div className="bg-emerald-50/50 px-3 py-2 flex justify-between items-center border-b border-emerald-100">
+         <span className="text-[10px] font-bold text-emerald-600 uppercase">Promote Tiers</span>
+         <button onClick={addRow} className="text-[10px] bg-emerald-600 text-white px-2 py-0.5 rounded hover:bg-emerald-700 flex items-center">
+           <i className="fa-solid fa-plus mr-1"></i> Add Tier
+         </button>
+       </div>
+       <table className="w-full text-xs text-left">
+         <thead className="bg-white text-slate-400">
+           <tr>
+             <th className="px-3 py-2 font-medium">Partner IRR Hurdle %</th>
+             <th className="px-3 py-2 font-medium">Partner Share Above %</th>
+             <th className="px-1 py-2"></th>
+           </tr>
+         </thead>
+         <tbody className="divide-y divide-slate-100 bg-white">
+           {tiers.length === 0 && (
+              <tr><td colSpan={3} className="px-3 py-4 text-center text-slate-400 italic">No promote. Profit share applies to all profit.</td></tr>
+           )}
+           {tiers.map(tier => (
+             <tr key={tier.id}>
+               <td className="px-3 py-1">
+                 <input type="number" step="0.5" value={tier.hurdleIrrPct} onChange={e => updateRow(tier.id, 'hurdleIrrPct', parseFloat(e.target.value))} className="w-16 border-slate-200 rounded text-xs font-mono"/>
+               </td>
+               <td className="px-3 py-1">
+                 <input type="number" min="0" max="100" value={tier.partnerSharePct} onChange={e => updateRow(tier.id, 'partnerSharePct', parseFloat(e.target.value))} className="w-16 border-slate-200 rounded text-xs font-bold text-slate-700"/>
+               </td>
+               <td className="px-1 py-1 text-right">
+                 <button onClick={() => removeRow(tier.id)} className="text-slate-300 hover:text-red-500 p-1"><i className="fa-solid fa-trash text-xs"></i></button>
+               </td>
+             </tr>
+           ))}
+         </tbody>
+       </table>
+     </div>
+  );
+};
+
 const InstalmentsTable = ({ instalments, onChange }: { instalments: DatedAmount[], onChange: (i: DatedAmount[]) => void }) => {
   const addRow = () => {
     const newId = Math.random().toString(36).substr(2, 9);
@@ -225,7 +278,7 @@ const DebtTab = ({
                     </select>
                  </div>
                  <div>
-                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{tier.limitMethod === DebtLimitMethod.FIXED ? 'Amount' : 'Cap %'}</label>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{tier.limitMethod === DebtLimitMethod.FIXED ? 'Amount' : tier.limitMethod === DebtLimitMethod.LESSER_OF ? 'LTC Cap %' : 'Cap %'}</label>
                     <input 
                        type="number" 
                        value={tier.limit || ''}
@@ -234,6 +287,18 @@ const DebtTab = ({
                        className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold"
                     />
                  </div>
+                 {tier.limitMethod === DebtLimitMethod.LESSER_OF && (
+                    <div>
+                       <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">LVR Cap %</label>
+                       <input 
+                          type="number" 
+                          value={tier.lvrLimit || ''}
+                          placeholder="0.00"
+                          onChange={e => onUpdate('lvrLimit', parseFloat(e.target.value))}
+                          className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold"
+                       />
+                    </div>
+                 )}
                  <div>
                     <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Activation Month</label>
                     <input 
@@ -243,6 +308,19 @@ const DebtTab = ({
                        className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold"
                     />
                  </div>
+                 <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Interest Reserve</label>
+                    <div className="relative">
+                       <input 
+                          type="number" min="0"
+                          value={tier.interestReserveMonths || ''}
+                          placeholder="None"
+                          onChange={e => onUpdate('interestReserveMonths', parseInt(e.target.value) || undefined)}
+                          className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold"
+                       />
+                       <span className="absolute right-3 top-1.5 text-xs text-slate-400 font-bold">Mths</span>
+                    </div>
+                 </div>
               </div>
 
               <div className="bg-slate-50 p-3 rounded-lg border border-slate-200">
@@ -264,16 +342,86 @@ const DebtTab = ({
                      className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold bg-white"
                   />
               </div>
+
+              <div className="mt-4 pt-4 border-t border-dashed border-slate-200">
+                  <label className="block text-[10px] font-bold text-slate-500 uppercase mb-2">Lender Covenants</label>
+                  <div className="grid grid-cols-2 gap-4">
+                     {([
+                        ['maxLtcPct', 'Max LTC %'],
+                        ['maxLvrPct', 'Max LVR %'],
+                        ['minPresaleCoverPct', 'Min Pre-Sale Cover %'],
+                        ['minIcr', 'Min ICR (x)']
+                     ] as const).map(([field, label]) => (
+                        <div key={field}>
+                           <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{label}</label>
+                           <input
+                              type="number" step="0.01"
+                              value={tier.covenants?.[field] || ''}
+                              placeholder="None"
+                              onChange={e => onUpdate('covenants', { ...tier.covenants, [field]: parseFloat(e.target.value) || undefined })}
+                              className="w-full border-slate-200 rounded-md py-1.5 px-2 text-sm font-bold"
+                           />
+                        </div>
+                     ))}
+                  </div>
+              </div>
            </div>
         </div>
      </div>
    );
 };
 
+const FundingOrderList = ({ title, order, onChange }: { title: string, order: FundingSource[], onChange: (o: FundingSource[]) => void }) => {
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+     <div>
+        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-2">{title}</label>
+        <div className="space-y-2">
+           {order.map((source, i) => (
+              <div key={source} className="flex items-center justify-between bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+                 <span className="text-xs font-bold text-slate-700"><span className="text-slate-400 font-mono mr-2">{i + 1}.</span>{source}</span>
+                 <div className="flex space-x-1">
+                    <button disabled={i === 0} onClick={() => move(i, -1)} className="text-slate-400 hover:text-blue-600 disabled:opacity-30 p-1"><i className="fa-solid fa-arrow-up text-xs"></i></button>
+                    <button disabled={i === order.length - 1} onClick={() => move(i, 1)} className="text-slate-400 hover:text-blue-600 disabled:opacity-30 p-1"><i className="fa-solid fa-arrow-down text-xs"></i></button>
+                 </div>
+              </div>
+           ))}
+        </div>
+     </div>
+  );
+};
+
+const WaterfallTab = ({ waterfall, onUpdate }: { waterfall: FundingWaterfall, onUpdate: (w: FundingWaterfall) => void }) => (
+  <div className="animate-in fade-in slide-in-from-right-4 duration-300 space-y-6">
+     <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <FundingOrderList title="Draw Order (Costs Funded By)" order={waterfall.drawOrder} onChange={drawOrder => onUpdate({ ...waterfall, drawOrder })} />
+        <FundingOrderList title="Repayment Order (Surplus Applied To)" order={waterfall.repaymentOrder} onChange={repaymentOrder => onUpdate({ ...waterfall, repaymentOrder })} />
+     </div>
+     <div className="max-w-xs">
+        <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Debt Sweep</label>
+        <div className="relative">
+           <input 
+              type="number" min="0" max="100"
+              value={waterfall.debtSweepPct}
+              onChange={e => onUpdate({ ...waterfall, debtSweepPct: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className="w-full border-slate-200 rounded-md py-1.5 px-3 text-sm font-bold"
+           />
+           <span className="absolute right-3 top-1.5 text-xs text-slate-400 font-bold">%</span>
+        </div>
+        <p className="text-xs text-slate-400 mt-2">Share of each month's surplus applied to debt. The balance is held in the project account until debt is repaid; the final month sweeps it all.</p>
+     </div>
+  </div>
+);
+
 // --- Main Component ---
 
-export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, peakEquityRequired = 0, projectLocation }) => {
-  const [activeTab, setActiveTab] = useState<'senior' | 'mezz' | 'equity'>('senior');
+export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, peakEquityRequired = 0, projectLocation, fundingBasis }) => {
+  const [activeTab, setActiveTab] = useState<'senior' | 'mezz' | 'equity' | 'waterfall'>('senior');
   const { capitalStack } = settings;
 
   const updateTier = (tier: 'senior' | 'mezzanine', field: keyof CapitalTier, value: any) => {
@@ -296,6 +444,16 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
     });
   };
 
+  const updateJv = (field: keyof FeasibilitySettings['capitalStack']['jv'], value: any) => {
+    onUpdate({
+      ...settings,
+      capitalStack: {
+        ...capitalStack,
+        jv: { ...capitalStack.jv, [field]: value }
+      }
+    });
+  };
+
   const updateSurplusRate = (rate: number) => {
     onUpdate({
       ...settings,
@@ -303,6 +461,34 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
     });
   };
 
+  const updateWaterfall = (waterfall: FundingWaterfall) => {
+    onUpdate({
+      ...settings,
+      capitalStack: { ...capitalStack, waterfall }
+    });
+  };
+
+  const updateRetainSurplus = (retain: boolean) => {
+    onUpdate({
+      ...settings,
+      capitalStack: { ...capitalStack, retainSurplusUntilDebtRepaid: retain }
+    });
+  };
+
+  const updateAsIfCompleteValue = (value: number) => {
+    onUpdate({
+      ...settings,
+      capitalStack: { ...capitalStack, asIfCompleteValue: isNaN(value) ? undefined : value }
+    });
+  };
+
+  const updateGstSettlementLag = (months: number) => {
+    onUpdate({
+      ...settings,
+      gstSettlementLag: isNaN(months) ? undefined : Math.max(0, Math.round(months))
+    });
+  };
+
   // Helper to calculate preview amount for percentage modes
   const getCalculatedEquity = () => {
       let basis = site.acquisition.purchasePrice;
@@ -325,6 +511,9 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
           const val = (basis * capitalStack.equity.percentageInput) / 100;
           return { val, label };
       }
+      if (capitalStack.equity.mode === EquityMode.PCT_TOTAL_COST && fundingBasis) {
+          return { val: FinanceEngine.resolveEquityLimit(capitalStack.equity, fundingBasis, 0).toNumber(), label: "Total Development Costs" };
+      }
       return null;
   };
 
@@ -351,6 +540,34 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
                className="w-16 border-none bg-slate-50 rounded text-xs font-bold text-right p-0 focus:ring-0" 
             />
             <span className="text-xs font-bold text-slate-400">%</span>
+            <label className="flex items-center cursor-pointer pl-3 border-l border-slate-200" title="Hold surplus cash in the project account until all debt is repaid">
+               <input 
+                  type="checkbox"
+                  checked={capitalStack.retainSurplusUntilDebtRepaid || false}
+                  onChange={e => updateRetainSurplus(e.target.checked)}
+                  className="w-3.5 h-3.5 text-blue-600 rounded border-slate-300"
+               />
+               <span className="ml-1.5 text-[10px] font-bold text-slate-500 uppercase">Retain Until Repaid</span>
+            </label>
+            <span className="text-[10px] font-bold text-slate-500 uppercase pl-3 border-l border-slate-200">As If Complete</span>
+            <input 
+               type="number" 
+               value={capitalStack.asIfCompleteValue || ''} 
+               placeholder="GRV"
+               title="Lender's valuation for LVR limits. Defaults to gross realisation value."
+               onChange={e => updateAsIfCompleteValue(parseFloat(e.target.value))}
+               className="w-24 border-none bg-slate-50 rounded text-xs font-bold text-right p-0 focus:ring-0" 
+            />
+            <span className="text-[10px] font-bold text-slate-500 uppercase pl-3 border-l border-slate-200">BAS Lag</span>
+            <input 
+               type="number" min="0"
+               value={settings.gstSettlementLag ?? ''} 
+               placeholder="Off"
+               title="Months after each quarter end that GST is settled in the funding cashflow. Leave blank to exclude GST timing."
+               onChange={e => updateGstSettlementLag(parseFloat(e.target.value))}
+               className="w-12 border-none bg-slate-50 rounded text-xs font-bold text-right p-0 focus:ring-0" 
+            />
+            <span className="text-xs font-bold text-slate-400">mths</span>
          </div>
       </div>
 
@@ -374,6 +591,12 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
          >
            Equity & Injection
          </button>
+         <button 
+           onClick={() => setActiveTab('waterfall')}
+           className={`flex-1 py-3 text-xs font-bold uppercase tracking-wider border-b-2 transition-colors ${activeTab === 'waterfall' ? 'border-slate-800 text-slate-800 bg-slate-50' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+         >
+           Funding Waterfall
+         </button>
       </div>
 
       <div className="p-6 min-h-[400px]">
@@ -392,6 +615,13 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
            />
          )}
          
+         {activeTab === 'waterfall' && (
+           <WaterfallTab 
+             waterfall={FinanceEngine.resolveFundingWaterfall(capitalStack)} 
+             onUpdate={updateWaterfall} 
+           />
+         )}
+
          {activeTab === 'equity' && (
            <div className="animate-in fade-in slide-in-from-right-4 duration-300">
               <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-100 mb-6 flex items-start justify-between">
@@ -452,6 +682,9 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
                              instalments={capitalStack.equity.instalments || []} 
                              onChange={i => updateEquity('instalments', i)} 
                           />
+                          <p className="text-xs text-slate-400 mt-2">
+                             Total committed: <strong className="font-mono text-slate-600">${(capitalStack.equity.instalments || []).reduce((acc, i) => acc + (i.amount || 0), 0).toLocaleString()}</strong>. Each instalment is drawn ahead of debt from its month; shortfalls beyond debt limits are topped up as gap equity.
+                          </p>
                        </div>
                     )}
 
@@ -521,6 +754,71 @@ export const FinanceSettings: React.FC<Props> = ({ settings, site, onUpdate, pea
                        </div>
                     )}
                  </div>
+
+                 {/* Joint Venture */}
+                 <div className="bg-white p-6 border border-slate-100 rounded-xl shadow-sm mt-6">
+                    <label className="flex items-center cursor-pointer">
+                       <input 
+                         type="checkbox"
+                         checked={capitalStack.jv.enabled}
+                         onChange={e => updateJv('enabled', e.target.checked)}
+                         className="w-4 h-4 text-emerald-600 rounded border-slate-300 focus:ring-emerald-500"
+                       />
+                       <span className="ml-2 text-xs font-bold text-slate-700 uppercase">Joint Venture Partner</span>
+                    </label>
+
+                    {capitalStack.jv.enabled && (
+                       <div className="mt-4 space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                             <div>
+                                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Partner Name</label>
+                                <input 
+                                  type="text" 
+                                  value={capitalStack.jv.partnerName} 
+                                  onChange={e => updateJv('partnerName', e.target.value)}
+                                  className="w-full border-slate-200 rounded-lg py-2 px-3 text-sm font-bold text-slate-700"
+                                />
+                             </div>
+                             <div>
+                                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Preferred Return (% p.a.)</label>
+                                <input 
+                                  type="number" 
+                                  step="0.5"
+                                  value={capitalStack.jv.preferredReturnPct || ''} 
+                                  onChange={e => updateJv('preferredReturnPct', parseFloat(e.target.value) || 0)}
+                                  className="w-full border-slate-200 rounded-lg py-2 px-3 text-sm font-bold text-slate-700"
+                                  placeholder="None"
+                                />
+                             </div>
+                             <div>
+                                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Partner Equity Share (%)</label>
+                                <input 
+                                  type="number" 
+                                  value={capitalStack.jv.equitySplitPct} 
+                                  onChange={e => updateJv('equitySplitPct', parseFloat(e.target.value))}
+                                  className="w-full border-slate-200 rounded-lg py-2 px-3 text-sm font-bold text-emerald-700"
+                                />
+                             </div>
+                             <div>
+                                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Partner Profit Share (%)</label>
+                                <input 
+                                  type="number" 
+                                  value={capitalStack.jv.profitSharePct} 
+                                  onChange={e => updateJv('profitSharePct', parseFloat(e.target.value))}
+                                  className="w-full border-slate-200 rounded-lg py-2 px-3 text-sm font-bold text-emerald-700"
+                                />
+                             </div>
+                          </div>
+                          <PromoteTiersTable 
+                             tiers={capitalStack.jv.promoteTiers || []} 
+                             onChange={t => updateJv('promoteTiers', t)} 
+                          />
+                          <p className="text-xs text-slate-400">
+                             Distributions return capital and the preferred return pro rata, then split profit at the partner share until each promote hurdle on the partner's IRR is met.
+                          </p>
+                       </div>
+                    )}
+                 </div>
               </div>
            </div>
          )}
@@ -109,7 +109,7 @@ export const FinancingLayers: React.FC<Props> = ({ settings, onUpdate, peakEquit
               </InputGroup>
 
               <div className="grid grid-cols-2 gap-4">
-                 <InputGroup label={capitalStack.senior.limitMethod === DebtLimitMethod.FIXED ? "Amount ($)" : "Cap (%)"}>
+                 <InputGroup label={capitalStack.senior.limitMethod === DebtLimitMethod.FIXED ? "Amount ($)" : capitalStack.senior.limitMethod === DebtLimitMethod.LESSER_OF ? "LTC Cap (%)" : "Cap (%)"}>
                     <input 
                        type="number" 
                        value={capitalStack.senior.limit || ''}
@@ -118,6 +118,17 @@ export const FinancingLayers: React.FC<Props> = ({ settings, onUpdate, peakEquit
                        className="w-full border border-slate-200 bg-slate-50 focus:bg-white rounded-md py-1.5 px-2 text-sm font-bold text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                  </InputGroup>
+                 {capitalStack.senior.limitMethod === DebtLimitMethod.LESSER_OF && (
+                    <InputGroup label="LVR Cap (%)" tooltip="Facility is the lesser of the LTC and LVR limits">
+                       <input
+                          type="number"
+                          value={capitalStack.senior.lvrLimit || ''}
+                          placeholder="0.00"
+                          onChange={(e) => updateTier('senior', 'lvrLimit', parseFloat(e.target.value))}
+                          className="w-full border border-slate-200 bg-slate-50 focus:bg-white rounded-md py-1.5 px-2 text-sm font-bold text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                       />
+                    </InputGroup>
+                 )}
                  <InputGroup label="Active Month" tooltip="Month when Line Fees begin">
                     <input 
                        type="number" 
@@ -1,20 +1,22 @@
 
 import React, { useMemo } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Line } from 'recharts';
-import { LineItem, FeasibilitySettings, CostCategory } from './types';
+import { LineItem, FeasibilitySettings, ProjectTimeline } from './types';
 import { Site } from './types-v2';
-import { distributeValue, getMonthLabel } from './services/financeEngine';
+import { distributeValue, getMonthLabel, resolveEscalationRate, getEscalationFactor, resolveLineItemStart } from './services/financeEngine';
 import Decimal from 'decimal.js';
 
 interface Props {
   item: LineItem;
   settings: FeasibilitySettings;
   site: Site; // Added Site V2
+  timeline: ProjectTimeline; // Resolved milestones for linked timing
   constructionTotal: number;
   totalRevenue: number;
 }
 
-export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructionTotal, totalRevenue }) => {
+export const PhasingChart: React.FC<Props> = ({ item, settings, site, timeline, constructionTotal, totalRevenue }) => {
+  const escalationRate = resolveEscalationRate(item, settings);
   
   const data = useMemo(() => {
     const chartData = [];
@@ -23,14 +25,8 @@ export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructi
     if (item.inputType.includes('Revenue')) baseTotal = (item.amount/100) * totalRevenue;
     if (item.inputType.includes('Construction')) baseTotal = (item.amount/100) * constructionTotal;
 
-    // Determine the effective start date based on category
-    let effectiveStart = item.startDate;
-    if (item.category === CostCategory.CONSTRUCTION) {
-       // Source settlement from Site V2
-       const settlement = site.acquisition.settlementPeriod || 0;
-       const delay = settings.constructionDelay || 0;
-       effectiveStart += (settlement + delay);
-    }
+    // Determine the effective start date from the linked milestone (or category default)
+    const effectiveStart = resolveLineItemStart(item, timeline);
 
     for (let m = 0; m <= settings.durationMonths; m++) {
       let baseVal = 0;
@@ -42,14 +38,8 @@ export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructi
         const monthlyBase = distributeValue(baseTotal, m - effectiveStart, item);
         baseVal = monthlyBase.toNumber();
 
-        // Calculate Escalated
-        const annualRate = (item.escalationRate || 0) / 100;
-        let compoundingFactor = 1;
-        if (annualRate > 0) {
-           const monthlyRate = Math.pow(1 + annualRate, 1/12) - 1;
-           compoundingFactor = Math.pow(1 + monthlyRate, m);
-        }
-        escalatedVal = baseVal * compoundingFactor;
+        // Calculate Escalated (line rate, else global growth matrix)
+        escalatedVal = baseVal * getEscalationFactor(escalationRate, m);
       }
 
       chartData.push({
@@ -60,7 +50,7 @@ export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructi
       });
     }
     return chartData;
-  }, [item, settings.durationMonths, settings.startDate, settings.constructionDelay, site.acquisition.settlementPeriod, constructionTotal, totalRevenue]);
+  }, [item, escalationRate, timeline, settings.durationMonths, settings.startDate, constructionTotal, totalRevenue]);
 
   if (item.span <= 0) return <div className="h-full flex items-center justify-center text-xs text-slate-400">Invalid Duration</div>;
 
@@ -73,10 +63,10 @@ export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructi
                <div className="w-2 h-2 bg-blue-100 border border-blue-500 rounded-sm"></div>
                <span className="text-[9px] font-bold text-slate-500">Base Cost</span>
             </div>
-            {item.escalationRate > 0 && (
+            {escalationRate > 0 && (
               <div className="flex items-center space-x-1">
                  <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
-                 <span className="text-[9px] font-bold text-slate-500">Escalated (+{item.escalationRate}%)</span>
+                 <span className="text-[9px] font-bold text-slate-500">Escalated (+{escalationRate}%)</span>
               </div>
             )}
          </div>
@@ -105,7 +95,7 @@ export const PhasingChart: React.FC<Props> = ({ item, settings, site, constructi
             fill="url(#colorBase)" 
             isAnimationActive={false}
           />
-          {item.escalationRate > 0 && (
+          {escalationRate > 0 && (
              <Line 
                type="monotone" 
                dataKey="Escalated" 
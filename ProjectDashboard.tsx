@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { CockpitTab, LineItem, CostCategory, RevenueItem, SmartRates, TaxConfiguration } from './types';
 import { Site, FeasibilityScenario } from './types-v2';
 import { FeasibilityEngine } from './FeasibilityEngine';
@@ -9,6 +9,7 @@ import { StakeholderManager } from './components/StakeholderManager';
 import { DocumentVault } from './components/DocumentVault';
 import { SiteSettings } from './components/SiteSettings';
 import { useProject } from './contexts/SiteContext';
+import { FinanceEngine } from './services/financeEngine';
 
 interface Props {
   site: Site;
@@ -40,6 +41,15 @@ export const SiteCockpit: React.FC<Props> = ({ site, onBack, onUpdateSite, smart
 
   // Derived
   const activeScenario = site.scenarios.find(s => s.id === selectedScenarioId);
+  const baselineScenario = site.scenarios.find(s => s.isBaseline);
+  const baselineMetrics = useMemo(() => {
+    if (!baselineScenario) return null;
+    // Same basis as the feasibility report, so a linked Hold baseline runs on its Sell scenario
+    return FinanceEngine.calculateScenarioMetrics(baselineScenario, site, taxScales).metrics;
+  }, [baselineScenario, site, taxScales]);
+
+  const formatPct = (val: number | null) => val !== null ? `${val.toFixed(1)}%` : 'N/A';
+  const formatMillions = (val: number) => `${val < 0 ? '-' : ''}$${(Math.abs(val) / 1000000).toFixed(2)}M`;
 
   // Auto-switch to feasibility tab if a scenario is selected externally while component is mounted
   useEffect(() => {
@@ -199,6 +209,20 @@ export const SiteCockpit: React.FC<Props> = ({ site, onBack, onUpdateSite, smart
                               </div>
                           </div>
 
+                          {baselineScenario && baselineMetrics ? (
+                          <div className="bg-white p-6 rounded-2xl border border-slate-200 shadow-sm">
+                              <div className="flex justify-between items-center mb-4">
+                                  <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">Financial Performance</h3>
+                                  <span className="px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-[9px] font-bold uppercase">Baseline: {baselineScenario.name}</span>
+                              </div>
+                              <div className="grid grid-cols-2 gap-4">
+                                  <SummaryCard label="Dev Margin" val={formatPct(baselineMetrics.devMarginPct)} icon="fa-solid fa-percent" color="text-slate-800" />
+                                  <SummaryCard label="Equity IRR (p.a.)" val={formatPct(baselineMetrics.equityIRR)} icon="fa-solid fa-arrow-trend-up" color="text-indigo-600" />
+                                  <SummaryCard label="Equity XIRR (Dated)" val={formatPct(baselineMetrics.equityXIRR)} icon="fa-solid fa-calendar-days" color="text-indigo-600" />
+                                  <SummaryCard label={`Project NPV @ ${baselineScenario.settings.discountRate}%`} val={formatMillions(baselineMetrics.projectNPV)} icon="fa-solid fa-scale-balanced" color={baselineMetrics.projectNPV >= 0 ? 'text-emerald-600' : 'text-red-600'} />
+                              </div>
+                          </div>
+                          ) : (
                           <div className="bg-white p-8 rounded-2xl border border-dashed border-slate-300 text-center flex flex-col items-center justify-center">
                               <i className="fa-solid fa-chart-simple text-4xl text-slate-200 mb-4"></i>
                               <h3 className="text-lg font-bold text-slate-800">Financial Performance</h3>
@@ -209,6 +233,7 @@ export const SiteCockpit: React.FC<Props> = ({ site, onBack, onUpdateSite, smart
                                   Go to Feasibility Models
                               </button>
                           </div>
+                          )}
                       </div>
                   </div>
               )}
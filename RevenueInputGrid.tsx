@@ -1,6 +1,7 @@
 
 import React, { useMemo, useState } from 'react';
-import { RevenueItem, RevenueStrategy, RevenueCalcMode, InputScale } from './types';
+import { RevenueItem, RevenueStrategy, RevenueCalcMode, InputScale, PriceRelease } from './types';
+import { FinanceEngine } from './services/financeEngine';
 import { HelpTooltip } from './components/HelpTooltip';
 import { SmartCurrencyInput } from './components/SmartCurrencyInput';
 
@@ -12,6 +13,78 @@ interface Props {
   inputScale?: InputScale; // New prop
 }
 
+// Revenue calculation modes; Hold rent rolls only price by lump sum or per unit
+const CALC_MODES: { mode: RevenueCalcMode; label: string; short: string }[] = [
+  { mode: 'QUANTITY_RATE', label: 'Rate x Qty', short: 'Rate' },
+  { mode: 'RATE_PER_SQM', label: 'Per m² NSA', short: '/m²' },
+  { mode: 'RATE_PER_CAR_SPACE', label: 'Per Car Space', short: '/Car' },
+  { mode: 'LUMP_SUM', label: 'Fixed Sum', short: 'Sum' }
+];
+const HOLD_CALC_MODES = CALC_MODES.filter(m => m.mode === 'QUANTITY_RATE' || m.mode === 'LUMP_SUM');
+
+// Staged price releases of a Sell item, sold in order at a premium to its base price
+const PriceReleaseEditor: React.FC<{ item: RevenueItem; onChange: (releases: PriceRelease[]) => void }> = ({ item, onChange }) => {
+  const releases = item.releases || [];
+  const update = (id: string, field: keyof PriceRelease, value: any) =>
+    onChange(releases.map(r => r.id === id ? { ...r, [field]: value } : r));
+  const add = () => onChange([...releases, {
+    id: Math.random().toString(36).substr(2, 9),
+    label: `Stage ${releases.length + 1}`,
+    units: 0,
+    priceUpliftPct: releases.length > 0 ? releases[releases.length - 1].priceUpliftPct + 5 : 0
+  }]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-400 uppercase">Price Releases</span>
+        <button onClick={add} className="text-[10px] font-bold text-emerald-600 hover:text-emerald-800">
+          <i className="fa-solid fa-plus mr-1"></i>Add Release
+        </button>
+      </div>
+      {releases.map(release => (
+        <div key={release.id} className="flex items-center space-x-2 text-xs">
+          <input
+            type="text"
+            value={release.label}
+            onChange={(e) => update(release.id, 'label', e.target.value)}
+            className="flex-1 border-slate-200 rounded py-1 px-2 font-bold text-slate-700"
+          />
+          <input
+            type="number"
+            value={release.units}
+            onChange={(e) => update(release.id, 'units', parseInt(e.target.value) || 0)}
+            className="w-16 border-slate-200 rounded py-1 px-2 text-center font-bold"
+            title="Units"
+          />
+          <div className="flex items-center">
+            <input
+              type="number"
+              step="0.5"
+              value={release.priceUpliftPct}
+              onChange={(e) => update(release.id, 'priceUpliftPct', parseFloat(e.target.value) || 0)}
+              className="w-16 border-slate-200 rounded py-1 px-2 text-center font-bold"
+              title="Uplift on base price"
+            />
+            <span className="text-[9px] text-slate-400 ml-1">%</span>
+          </div>
+          <span className="w-24 text-right font-mono text-slate-500">
+            ${(item.pricePerUnit * (1 + release.priceUpliftPct / 100)).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+          </span>
+          <button onClick={() => onChange(releases.filter(r => r.id !== release.id))} className="text-slate-300 hover:text-red-500">
+            <i className="fa-solid fa-times"></i>
+          </button>
+        </div>
+      ))}
+      {releases.length > 0 && (
+        <p className="text-[10px] text-slate-400">
+          {releases.reduce((acc, r) => acc + r.units, 0)} of {item.units} units released; the balance sells last at the base price.
+        </p>
+      )}
+    </div>
+  );
+};
+
 export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, projectDuration, strategy, inputScale = InputScale.ONES }) => {
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [isSheetOpen, setIsSheetOpen] = useState(false);
@@ -65,9 +138,12 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
     const relevant = revenues.filter(r => r.strategy === strategy);
     
     if (strategy === 'Sell') {
-        const gross = relevant.reduce((acc, r) => acc + (r.units * r.pricePerUnit), 0);
-        const units = relevant.reduce((acc, r) => acc + r.units, 0);
-        const avg = units > 0 ? gross / units : 0;
+        const gross = relevant.reduce((acc, r) => acc + FinanceEngine.calculateSaleValue(r), 0);
+        // Car spaces are sold alongside dwellings, so they sit outside the unit count and average price
+        const carItems = relevant.filter(r => r.calcMode === 'RATE_PER_CAR_SPACE');
+        const carValue = carItems.reduce((acc, r) => acc + FinanceEngine.calculateSaleValue(r), 0);
+        const units = relevant.filter(r => r.calcMode !== 'RATE_PER_CAR_SPACE').reduce((acc, r) => acc + r.units, 0);
+        const avg = units > 0 ? (gross - carValue) / units : 0;
         return { gross, units, avg };
     } else {
         // Hold Valuation (ISP)
@@ -92,6 +168,20 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
     }
   }, [revenues, strategy]);
 
+  // Gross realisation of the Sell items by calculation mode, reconciling to the engine's sale values
+  const sellBreakdown = useMemo(() => {
+    const relevant = revenues.filter(r => r.strategy === 'Sell');
+    return {
+      byMode: CALC_MODES.map(({ mode, label }) => ({
+        mode,
+        label,
+        value: relevant.filter(r => r.calcMode === mode).reduce((acc, r) => acc + FinanceEngine.calculateSaleValue(r), 0)
+      })),
+      carSpaces: relevant.filter(r => r.calcMode === 'RATE_PER_CAR_SPACE').reduce((acc, r) => acc + r.units, 0),
+      areaSqm: relevant.filter(r => r.calcMode === 'RATE_PER_SQM').reduce((acc, r) => acc + (r.areaSqm || 0), 0)
+    };
+  }, [revenues]);
+
   const isHold = strategy === 'Hold';
   const scaleLabel = inputScale === InputScale.THOUSANDS ? "'000s" : (inputScale === InputScale.MILLIONS ? "'Ms" : "");
 
@@ -119,7 +209,7 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
 
       {/* TABLE (Desktop) - High Density with Sticky Columns */}
       <div className="hidden md:block flex-1 overflow-x-auto shadow-inner rounded-xl border border-slate-100 m-4">
-        <table className="w-full text-left text-sm border-collapse min-w-[900px]">
+        <table className="w-full text-left text-sm border-collapse min-w-[1100px]">
           <thead>
             <tr className="bg-slate-50 border-b border-slate-200 text-slate-500 uppercase text-[10px] tracking-widest font-bold sticky top-0 z-30">
               <th className="px-4 py-3 w-48 bg-slate-50 sticky left-0 z-40 border-r border-slate-100 shadow-[2px_0_5px_-2px_rgba(0,0,0,0.05)]">Description</th>
@@ -130,6 +220,9 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                     <th className="px-2 py-3 text-center w-20 bg-slate-50">Qty</th>
                     <th className="px-2 py-3 text-right bg-slate-50">Avg Price</th>
                     <th className="px-2 py-3 text-center w-24 bg-slate-50">Rate (U/Mo)</th>
+                    <th className="px-2 py-3 text-center w-28 bg-slate-50" title="Off-the-plan exchanges and units pre-sold at launch">Pre-Sales</th>
+                    <th className="px-2 py-3 text-center w-28 bg-slate-50" title="Purchaser deposit: held in trust or released under a deposit bond">Deposit</th>
+                    <th className="px-2 py-3 text-center w-16 bg-slate-50" title="Off-the-plan settlement failure rate">Fail %</th>
                     <th className="px-2 py-3 text-center w-24 bg-slate-50">Offset (Mo)</th>
                     <th className="px-4 py-3 text-right bg-slate-50 w-32">Total Revenue</th>
                  </>
@@ -149,11 +242,14 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
           </thead>
           <tbody className="divide-y divide-slate-100 bg-white">
             {revenues.filter(r => r.strategy === strategy).map((item) => {
-              const isQtyMode = item.calcMode === 'QUANTITY_RATE';
-              const grossTotal = isQtyMode ? item.units * item.pricePerUnit : item.pricePerUnit;
+              const isQtyMode = item.calcMode === 'QUANTITY_RATE' || item.calcMode === 'RATE_PER_CAR_SPACE';
+              const modes = isHold ? HOLD_CALC_MODES : CALC_MODES;
+              const modeIndex = Math.max(0, modes.findIndex(m => m.mode === item.calcMode));
+              const grossTotal = isHold && !isQtyMode ? item.pricePerUnit : FinanceEngine.calculateSaleValue(item);
 
               return (
-              <tr key={item.id} className="hover:bg-slate-50 transition-colors group text-xs">
+              <React.Fragment key={item.id}>
+              <tr className="hover:bg-slate-50 transition-colors group text-xs">
                 {/* Sticky Description Column */}
                 <td className="px-4 py-1 sticky left-0 z-20 bg-white group-hover:bg-slate-50 border-r border-slate-100">
                   <input 
@@ -168,10 +264,11 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                 {/* Mode Toggle */}
                 <td className="px-4 py-1 text-center">
                    <button 
-                     onClick={() => updateRevenue(item.id, 'calcMode', isQtyMode ? 'LUMP_SUM' : 'QUANTITY_RATE')}
-                     className={`text-[9px] font-bold px-1.5 py-0.5 rounded border uppercase ${isQtyMode ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+                     onClick={() => updateRevenue(item.id, 'calcMode', modes[(modeIndex + 1) % modes.length].mode)}
+                     title={modes[modeIndex].label}
+                     className={`text-[9px] font-bold px-1.5 py-0.5 rounded border uppercase ${item.calcMode !== 'LUMP_SUM' ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
                    >
-                      {isQtyMode ? 'Rate' : 'Sum'}
+                      {modes[modeIndex].short}
                    </button>
                 </td>
 
@@ -182,16 +279,27 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                         {isQtyMode ? (
                             <input 
                                 type="number" 
+                                disabled={!!item.unitMixId}
+                                title={item.unitMixId ? 'Set in the unit mix schedule' : undefined}
                                 value={item.units}
                                 onChange={(e) => updateRevenue(item.id, 'units', parseFloat(e.target.value))}
                                 className="w-full bg-transparent text-center border-none focus:ring-0 font-bold text-slate-700 hover:bg-slate-100 rounded"
                             />
+                        ) : item.calcMode === 'RATE_PER_SQM' ? (
+                            <input 
+                                type="number" 
+                                value={item.areaSqm || 0}
+                                onChange={(e) => updateRevenue(item.id, 'areaSqm', parseFloat(e.target.value) || 0)}
+                                className="w-full bg-transparent text-center border-none focus:ring-0 font-bold text-slate-700 hover:bg-slate-100 rounded"
+                                title="Net saleable area (m²)"
+                            />
                         ) : <span className="text-slate-300">-</span>}
                       </td>
                       
                       {/* Price (SMART INPUT) */}
                       <td className="px-2 py-1 text-right">
                          <SmartCurrencyInput
+                           disabled={!!item.unitMixId}
                            value={item.pricePerUnit}
                            onChange={(val) => updateRevenue(item.id, 'pricePerUnit', val)}
                            scale={inputScale}
@@ -210,6 +318,58 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                          />
                       </td>
 
+                      {/* Off-the-plan Pre-Sales */}
+                      <td className="px-2 py-1 text-center">
+                         <div className="flex items-center justify-center space-x-1">
+                            <button
+                              onClick={() => updateRevenue(item.id, 'isOffThePlan', !item.isOffThePlan)}
+                              className={`text-[9px] font-bold px-1.5 py-0.5 rounded border uppercase ${item.isOffThePlan ? 'bg-emerald-50 text-emerald-600 border-emerald-200' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+                              title="Sell off the plan during construction"
+                            >
+                               OTP
+                            </button>
+                            <input
+                              type="number"
+                              value={item.preSoldUnits || 0}
+                              onChange={(e) => updateRevenue(item.id, 'preSoldUnits', parseInt(e.target.value) || 0)}
+                              className="w-12 bg-transparent text-center border-none focus:ring-0 font-bold text-slate-600 hover:bg-slate-100 rounded"
+                              title="Units pre-sold"
+                            />
+                         </div>
+                      </td>
+
+                      {/* Deposit */}
+                      <td className="px-2 py-1 text-center">
+                         {item.isOffThePlan ? (
+                            <div className="flex items-center justify-center space-x-1">
+                               <input
+                                 type="number"
+                                 value={item.depositPct ?? 10}
+                                 onChange={(e) => updateRevenue(item.id, 'depositPct', parseFloat(e.target.value) || 0)}
+                                 className="w-10 bg-transparent text-center border-none focus:ring-0 font-bold text-slate-600 hover:bg-slate-100 rounded"
+                               />
+                               <button
+                                 onClick={() => updateRevenue(item.id, 'depositTreatment', item.depositTreatment === 'RELEASED' ? 'TRUST' : 'RELEASED')}
+                                 className="text-[9px] font-bold px-1.5 py-0.5 rounded border uppercase bg-slate-100 text-slate-500 border-slate-200"
+                               >
+                                  {item.depositTreatment === 'RELEASED' ? 'Bond' : 'Trust'}
+                               </button>
+                            </div>
+                         ) : <span className="text-slate-300">-</span>}
+                      </td>
+
+                      {/* Settlement Failure */}
+                      <td className="px-2 py-1 text-center">
+                         {item.isOffThePlan ? (
+                            <input
+                              type="number"
+                              value={item.settlementFailurePct || 0}
+                              onChange={(e) => updateRevenue(item.id, 'settlementFailurePct', parseFloat(e.target.value) || 0)}
+                              className="w-full bg-transparent text-center border-none focus:ring-0 font-bold text-slate-600 hover:bg-slate-100 rounded"
+                            />
+                         ) : <span className="text-slate-300">-</span>}
+                      </td>
+
                       {/* Offset */}
                       <td className="px-2 py-1 text-center">
                          <input 
@@ -306,12 +466,25 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                    </>
                 )}
 
-                <td className="px-4 py-1 text-center">
+                <td className="px-4 py-1 text-center whitespace-nowrap">
+                  {!isHold && (
+                    <button onClick={() => toggleExpanded(item.id)} className={`mr-2 transition-colors ${item.releases?.length ? 'text-emerald-500' : 'text-slate-300 hover:text-emerald-500 opacity-0 group-hover:opacity-100'}`} title="Price releases">
+                      <i className="fa-solid fa-layer-group"></i>
+                    </button>
+                  )}
                   <button onClick={() => removeRevenue(item.id)} className="text-slate-300 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100">
                     <i className="fa-solid fa-times"></i>
                   </button>
                 </td>
               </tr>
+              {!isHold && expandedRow === item.id && (
+                <tr className="bg-slate-50/50">
+                  <td colSpan={11} className="px-6 py-3">
+                    <PriceReleaseEditor item={item} onChange={releases => updateRevenue(item.id, 'releases', releases)} />
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
             )})}
           </tbody>
         </table>
@@ -320,8 +493,14 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
       {/* MOBILE: CARD STACK (Vertical) - Same logic, refined for touch */}
       <div className="md:hidden p-4 space-y-4 pb-32">
          {revenues.filter(r => r.strategy === strategy).map(item => {
-             const isQtyMode = item.calcMode === 'QUANTITY_RATE';
-             const grossTotal = isQtyMode ? item.units * item.pricePerUnit : item.pricePerUnit;
+             const isQtyMode = item.calcMode === 'QUANTITY_RATE' || item.calcMode === 'RATE_PER_CAR_SPACE';
+             const grossTotal = isHold && !isQtyMode ? item.pricePerUnit : FinanceEngine.calculateSaleValue(item);
+             const modeSummary = {
+                QUANTITY_RATE: `${item.units} Units @ $${item.pricePerUnit.toLocaleString()}`,
+                RATE_PER_CAR_SPACE: `${item.units} Car Spaces @ $${item.pricePerUnit.toLocaleString()}`,
+                RATE_PER_SQM: `${(item.areaSqm || 0).toLocaleString()} m² @ $${item.pricePerUnit.toLocaleString()}/m²`,
+                LUMP_SUM: 'Lump Sum Amount'
+             }[item.calcMode];
              const isExpanded = expandedRow === item.id;
 
              return (
@@ -330,7 +509,7 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                      <div className="flex-1">
                         <div className="font-bold text-slate-800 text-sm mb-1">{item.description}</div>
                         <p className="text-[10px] text-slate-400 font-medium">
-                           {item.calcMode === 'QUANTITY_RATE' ? `${item.units} Units @ $${item.pricePerUnit.toLocaleString()}` : 'Lump Sum Amount'}
+                           {modeSummary}
                         </p>
                      </div>
                      <div className="text-right">
@@ -365,14 +544,16 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                         <div className="col-span-2">
                            <label className="text-[10px] font-bold text-slate-400 uppercase">Calculation Mode</label>
                            <div className="flex bg-slate-100 p-1 rounded mt-1">
-                              <button onClick={() => updateRevenue(item.id, 'calcMode', 'QUANTITY_RATE')} className={`flex-1 py-1 rounded text-[10px] font-bold ${item.calcMode === 'QUANTITY_RATE' ? 'bg-white shadow text-emerald-600' : 'text-slate-500'}`}>Rate x Qty</button>
-                              <button onClick={() => updateRevenue(item.id, 'calcMode', 'LUMP_SUM')} className={`flex-1 py-1 rounded text-[10px] font-bold ${item.calcMode === 'LUMP_SUM' ? 'bg-white shadow text-emerald-600' : 'text-slate-500'}`}>Fixed Sum</button>
+                              {(isHold ? HOLD_CALC_MODES : CALC_MODES).map(({ mode, label }) => (
+                                 <button key={mode} onClick={() => updateRevenue(item.id, 'calcMode', mode)} className={`flex-1 py-1 rounded text-[10px] font-bold ${item.calcMode === mode ? 'bg-white shadow text-emerald-600' : 'text-slate-500'}`}>{label}</button>
+                              ))}
                            </div>
                         </div>
                         
                         <div>
-                           <label className="text-[10px] font-bold text-slate-400 uppercase">Amount ($)</label>
+                           <label className="text-[10px] font-bold text-slate-400 uppercase">{item.calcMode === 'LUMP_SUM' ? 'Amount ($)' : item.calcMode === 'RATE_PER_SQM' ? 'Rate ($/m²)' : 'Rate ($)'}</label>
                            <SmartCurrencyInput 
+                                disabled={!!item.unitMixId}
                                 value={item.pricePerUnit}
                                 onChange={(val) => updateRevenue(item.id, 'pricePerUnit', val)}
                                 scale={inputScale}
@@ -380,10 +561,17 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                            />
                         </div>
                         
-                        {item.calcMode === 'QUANTITY_RATE' && (
+                        {isQtyMode && (
+                            <div>
+                               <label className="text-[10px] font-bold text-slate-400 uppercase">{item.calcMode === 'RATE_PER_CAR_SPACE' ? 'Car Spaces' : 'Quantity'}</label>
+                               <input type="number" disabled={!!item.unitMixId} className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.units} onChange={e => updateRevenue(item.id, 'units', parseFloat(e.target.value))} />
+                            </div>
+                        )}
+
+                        {item.calcMode === 'RATE_PER_SQM' && (
                             <div>
-                               <label className="text-[10px] font-bold text-slate-400 uppercase">Quantity</label>
-                               <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.units} onChange={e => updateRevenue(item.id, 'units', parseFloat(e.target.value))} />
+                               <label className="text-[10px] font-bold text-slate-400 uppercase">Area (m² NSA)</label>
+                               <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.areaSqm || 0} onChange={e => updateRevenue(item.id, 'areaSqm', parseFloat(e.target.value) || 0)} />
                             </div>
                         )}
 
@@ -393,10 +581,44 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                                  <label className="text-[10px] font-bold text-slate-400 uppercase">Absorp. Rate</label>
                                  <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.absorptionRate} onChange={e => updateRevenue(item.id, 'absorptionRate', parseFloat(e.target.value))} />
                               </div>
+                              <div>
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase">Pre-Sold</label>
+                                 <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.preSoldUnits || 0} onChange={e => updateRevenue(item.id, 'preSoldUnits', parseInt(e.target.value) || 0)} />
+                              </div>
                               <div>
                                  <label className="text-[10px] font-bold text-slate-400 uppercase">Offset (Mo)</label>
                                  <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.offsetFromCompletion} onChange={e => updateRevenue(item.id, 'offsetFromCompletion', parseFloat(e.target.value))} />
                               </div>
+                              <div className="col-span-2 pt-1">
+                                 <PriceReleaseEditor item={item} onChange={releases => updateRevenue(item.id, 'releases', releases)} />
+                              </div>
+                              <div className="col-span-2 flex items-center justify-between pt-1">
+                                 <label className="text-[10px] font-bold text-slate-400 uppercase">Sell Off the Plan</label>
+                                 <input type="checkbox" checked={!!item.isOffThePlan} onChange={e => updateRevenue(item.id, 'isOffThePlan', e.target.checked)} className="w-4 h-4 text-emerald-600 rounded border-slate-300" />
+                              </div>
+                              {item.isOffThePlan && (
+                                 <>
+                                    <div>
+                                       <label className="text-[10px] font-bold text-slate-400 uppercase">Launch (Mo)</label>
+                                       <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.salesLaunchMonth ?? ''} placeholder="Const. start" onChange={e => updateRevenue(item.id, 'salesLaunchMonth', e.target.value === '' ? undefined : parseInt(e.target.value))} />
+                                    </div>
+                                    <div>
+                                       <label className="text-[10px] font-bold text-slate-400 uppercase">Deposit %</label>
+                                       <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.depositPct ?? 10} onChange={e => updateRevenue(item.id, 'depositPct', parseFloat(e.target.value) || 0)} />
+                                    </div>
+                                    <div>
+                                       <label className="text-[10px] font-bold text-slate-400 uppercase">Deposits</label>
+                                       <select className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.depositTreatment || 'TRUST'} onChange={e => updateRevenue(item.id, 'depositTreatment', e.target.value)}>
+                                          <option value="TRUST">Held in Trust</option>
+                                          <option value="RELEASED">Released (Bond)</option>
+                                       </select>
+                                    </div>
+                                    <div>
+                                       <label className="text-[10px] font-bold text-slate-400 uppercase">Failure %</label>
+                                       <input type="number" className="w-full border-slate-200 rounded py-1.5 px-2 text-sm font-bold mt-1" value={item.settlementFailurePct || 0} onChange={e => updateRevenue(item.id, 'settlementFailurePct', parseFloat(e.target.value) || 0)} />
+                                    </div>
+                                 </>
+                              )}
                            </>
                         ) : (
                            <>
@@ -503,10 +725,33 @@ export const RevenueInputGrid: React.FC<Props> = ({ revenues, setRevenues, proje
                                     <span className="text-sm text-slate-400">Total Units</span>
                                     <span className="text-sm font-mono font-bold text-white">{totals.units}</span>
                                 </div>
-                                <div className="flex justify-between items-center">
+                                <div className="flex justify-between items-center mb-2">
                                     <span className="text-sm text-slate-400">Average Price</span>
                                     <span className="text-sm font-mono font-bold text-emerald-400">${Math.round(totals.avg).toLocaleString()}</span>
                                 </div>
+                                {sellBreakdown.carSpaces > 0 && (
+                                    <div className="flex justify-between items-center mb-2">
+                                        <span className="text-sm text-slate-400">Car Spaces</span>
+                                        <span className="text-sm font-mono font-bold text-white">{sellBreakdown.carSpaces}</span>
+                                    </div>
+                                )}
+                                {sellBreakdown.areaSqm > 0 && (
+                                    <div className="flex justify-between items-center mb-2">
+                                        <span className="text-sm text-slate-400">Area Sold by m²</span>
+                                        <span className="text-sm font-mono font-bold text-white">{sellBreakdown.areaSqm.toLocaleString()} m²</span>
+                                    </div>
+                                )}
+                                <div className="w-full h-px bg-slate-700 my-2"></div>
+                                {sellBreakdown.byMode.filter(m => m.value !== 0).map(m => (
+                                    <div key={m.mode} className="flex justify-between items-center mb-2">
+                                        <span className="text-sm text-slate-400">{m.label}</span>
+                                        <span className="text-sm font-mono font-bold text-white">${Math.round(m.value).toLocaleString()}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between items-center">
+                                    <span className="text-sm font-bold text-slate-300">Gross Realisation</span>
+                                    <span className="text-sm font-mono font-bold text-emerald-400">${Math.round(sellBreakdown.byMode.reduce((acc, m) => acc + m.value, 0)).toLocaleString()}</span>
+                                </div>
                              </>
                          ) : (
                              <>
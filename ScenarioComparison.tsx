@@ -15,6 +15,9 @@ interface ScenarioMetrics {
   netProfit: number;
   margin: number;
   irr: number | null; // Updated to allow null
+  xirr: number | null;
+  projectNPV: number;
+  equityNPV: number;
   equityMultiple: number;
 }
 
@@ -23,12 +26,8 @@ export const ScenarioComparison: React.FC<Props> = ({ scenarios, site }) => {
   // Calculate metrics for all scenarios
   const results = useMemo(() => {
     return scenarios.map(scenario => {
-      // 1. Run Engine to get Monthly Flows
-      const cashflow = FinanceEngine.calculateMonthlyCashflow(scenario, site);
-      
-      // 2. Use Canonical Metrics Calculator to avoid logic duplication
-      // Fix: Added missing 'site' argument to calculateProjectMetrics
-      const metrics = FinanceEngine.calculateProjectMetrics(cashflow, scenario.settings, site);
+      // 1-2. Run Engine and the Canonical Metrics Calculator (linked Hold scenarios on their Sell basis)
+      const { cashflow, metrics } = FinanceEngine.calculateScenarioMetrics(scenario, site);
       
       // 3. Extract Land Value (Input) for reference
       // Note: Use site acquisition for Land Cost if not explicit in Line Items, or check explicit items
@@ -51,6 +50,9 @@ export const ScenarioComparison: React.FC<Props> = ({ scenarios, site }) => {
           netProfit: metrics.netProfit,
           margin: metrics.devMarginPct,
           irr: metrics.equityIRR,
+          xirr: metrics.equityXIRR,
+          projectNPV: metrics.projectNPV,
+          equityNPV: metrics.equityNPV,
           equityMultiple
         }
       };
@@ -94,6 +96,9 @@ export const ScenarioComparison: React.FC<Props> = ({ scenarios, site }) => {
     { label: 'Net Profit', key: 'netProfit', type: 'currency' },
     { label: 'Development Margin', key: 'margin', type: 'pct' },
     { label: 'Equity IRR (p.a.)', key: 'irr', type: 'pct' },
+    { label: 'Equity XIRR (Dated)', key: 'xirr', type: 'pct' },
+    { label: 'Project NPV @ Discount Rate', key: 'projectNPV', type: 'currency' },
+    { label: 'Equity NPV @ Discount Rate', key: 'equityNPV', type: 'currency' },
     { label: 'Equity Multiple', key: 'equityMultiple', type: 'pct' } // formatting as decimal actually
   ];
 
@@ -135,7 +140,7 @@ export const ScenarioComparison: React.FC<Props> = ({ scenarios, site }) => {
                   
                   let displayVal = '';
                   if (row.key === 'equityMultiple' && typeof val === 'number') displayVal = `${val.toFixed(2)}x`;
-                  else if (row.key === 'irr') displayVal = formatPct(val);
+                  else if (row.key === 'irr' || row.key === 'xirr') displayVal = formatPct(val);
                   else if (typeof val === 'number') displayVal = row.type === 'currency' ? formatCurrency(val) : formatPct(val);
 
                   return (
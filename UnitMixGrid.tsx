@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { RevenueItem, UnitMixRow, UnitMixSchedule, InputScale } from './types';
+import { FeasibilitySettings } from './types-v2';
+import { SmartCurrencyInput } from './components/SmartCurrencyInput';
+import { UnitMixService } from './services/unitMixService';
+
+interface Props {
+  settings: FeasibilitySettings;
+  setSettings: React.Dispatch<React.SetStateAction<FeasibilitySettings>>;
+  setRevenues: React.Dispatch<React.SetStateAction<RevenueItem[]>>;
+  inputScale?: InputScale;
+}
+
+const DEFAULT_EFFICIENCY = 80;
+
+export const UnitMixGrid: React.FC<Props> = ({ settings, setSettings, setRevenues, inputScale = InputScale.ONES }) => {
+  const mix: UnitMixSchedule = settings.unitMix || { rows: [], efficiencyPct: DEFAULT_EFFICIENCY };
+  const summary = useMemo(() => UnitMixService.summarise(mix), [mix]);
+
+  // The mix drives the generated Sell items and the unit count
+  const updateMix = (next: UnitMixSchedule) => {
+    const totalUnits = UnitMixService.summarise(next).totalUnits;
+    setSettings(prev => ({ ...prev, unitMix: next, totalUnits: next.rows.length > 0 ? totalUnits : prev.totalUnits }));
+    setRevenues(prev => UnitMixService.generateRevenues(next, prev));
+  };
+
+  const addRow = () => {
+    const row: UnitMixRow = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: `Type ${String.fromCharCode(65 + mix.rows.length)}`,
+      beds: 2,
+      internalSqm: 75,
+      externalSqm: 10,
+      carSpaces: 1,
+      count: 1,
+      pricingBasis: 'PER_UNIT',
+      rate: 0
+    };
+    updateMix({ ...mix, rows: [...mix.rows, row] });
+  };
+
+  const updateRow = (id: string, field: keyof UnitMixRow, value: any) =>
+    updateMix({ ...mix, rows: mix.rows.map(r => r.id === id ? { ...r, [field]: value } : r) });
+
+  const removeRow = (id: string) => updateMix({ ...mix, rows: mix.rows.filter(r => r.id !== id) });
+
+  const numberCell = (row: UnitMixRow, field: keyof UnitMixRow, integer = false) => (
+    <td className="px-2 py-1 text-center">
+      <input
+        type="number"
+        value={row[field] as number}
+        onChange={(e) => updateRow(row.id, field, (integer ? parseInt(e.target.value) : parseFloat(e.target.value)) || 0)}
+        className="w-full bg-transparent text-center border-none focus:ring-0 font-bold text-slate-700 hover:bg-slate-100 rounded"
+      />
+    </td>
+  );
+
+  return (
+    <div className="bg-white md:rounded-xl md:shadow-sm md:border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+        <div>
+          <h3 className="font-bold text-slate-800 text-sm md:text-base flex items-center">
+            <i className="fa-solid fa-table-cells mr-2 text-indigo-500"></i>
+            Unit Mix Schedule
+          </h3>
+          <p className="text-[10px] md:text-xs text-slate-500 mt-0.5 ml-6">Product types generate the sales lines, NSA/GFA and unit count</p>
+        </div>
+        <button onClick={addRow} className="flex items-center text-xs font-bold bg-white text-indigo-700 border border-indigo-200 px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors shadow-sm">
+          <i className="fa-solid fa-plus mr-1.5"></i> Add Type
+        </button>
+      </div>
+
+      {mix.rows.length > 0 && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs border-collapse min-w-[900px]">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200 text-slate-500 uppercase text-[10px] tracking-widest font-bold">
+                  <th className="px-4 py-3 w-40">Type</th>
+                  <th className="px-2 py-3 text-center w-14">Beds</th>
+                  <th className="px-2 py-3 text-center w-16">Int m²</th>
+                  <th className="px-2 py-3 text-center w-16">Ext m²</th>
+                  <th className="px-2 py-3 text-center w-14">Cars</th>
+                  <th className="px-2 py-3 text-center w-14">Count</th>
+                  <th className="px-2 py-3 text-center w-20">Basis</th>
+                  <th className="px-2 py-3 text-right">Rate</th>
+                  <th className="px-2 py-3 text-right">Unit Price</th>
+                  <th className="px-4 py-3 text-right">Total</th>
+                  <th className="px-4 py-3 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {summary.lines.map(line => (
+                  <tr key={line.id} className="hover:bg-slate-50 transition-colors group">
+                    <td className="px-4 py-1">
+                      <input
+                        type="text"
+                        value={line.type}
+                        onChange={(e) => updateRow(line.id, 'type', e.target.value)}
+                        className="w-full bg-transparent border-none focus:ring-0 font-bold text-slate-700"
+                      />
+                    </td>
+                    {numberCell(line, 'beds', true)}
+                    {numberCell(line, 'internalSqm')}
+                    {numberCell(line, 'externalSqm')}
+                    {numberCell(line, 'carSpaces', true)}
+                    {numberCell(line, 'count', true)}
+                    <td className="px-2 py-1 text-center">
+                      <button
+                        onClick={() => updateRow(line.id, 'pricingBasis', line.pricingBasis === 'PER_SQM' ? 'PER_UNIT' : 'PER_SQM')}
+                        className="text-[9px] font-bold px-1.5 py-0.5 rounded border uppercase bg-indigo-50 text-indigo-600 border-indigo-200"
+                      >
+                        {line.pricingBasis === 'PER_SQM' ? '$ / m²' : '$ / Unit'}
+                      </button>
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      <SmartCurrencyInput
+                        value={line.rate}
+                        onChange={(val) => updateRow(line.id, 'rate', val)}
+                        scale={line.pricingBasis === 'PER_SQM' ? InputScale.ONES : inputScale}
+                        className="w-full bg-transparent text-right border-none focus:ring-0 font-mono font-bold text-slate-700 hover:bg-slate-100 rounded"
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right font-mono text-slate-500">
+                      ${line.unitPrice.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </td>
+                    <td className="px-4 py-1 text-right font-mono font-bold text-slate-900">
+                      ${line.totalRevenue.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </td>
+                    <td className="px-4 py-1 text-center">
+                      <button onClick={() => removeRow(line.id)} className="text-slate-300 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100">
+                        <i className="fa-solid fa-times"></i>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 px-6 py-4 bg-slate-50 border-t border-slate-200 text-xs">
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">Units</span>
+              <span className="font-bold text-slate-800">{summary.totalUnits}</span>
+            </div>
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">NSA</span>
+              <span className="font-bold text-slate-800">{summary.nsa.toLocaleString(undefined, { maximumFractionDigits: 0 })} m²</span>
+            </div>
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">Efficiency (NSA/GFA)</span>
+              <div className="flex items-center">
+                <input
+                  type="number"
+                  value={mix.efficiencyPct}
+                  onChange={(e) => updateMix({ ...mix, efficiencyPct: parseFloat(e.target.value) || DEFAULT_EFFICIENCY })}
+                  className="w-16 border-slate-200 rounded py-0.5 px-2 text-xs font-bold"
+                />
+                <span className="ml-1 text-slate-400">%</span>
+              </div>
+            </div>
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">GFA</span>
+              <span className="font-bold text-slate-800">{summary.gfa.toLocaleString(undefined, { maximumFractionDigits: 0 })} m²</span>
+            </div>
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">Car Spaces</span>
+              <span className="font-bold text-slate-800">{summary.carSpaces}</span>
+            </div>
+            <div>
+              <span className="block text-[10px] font-bold text-slate-400 uppercase">Gross / m² NSA</span>
+              <span className="font-bold text-slate-800">${summary.averageRatePerSqm.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -28,9 +28,7 @@ export const GlobalFeasibilityList: React.FC = () => {
   const groupedData = useMemo(() => {
     return sites.map(site => {
       const siteScenarios: EnrichedScenario[] = site.scenarios.map(scen => {
-        const cashflow = FinanceEngine.calculateMonthlyCashflow(scen, site);
-        // Fix: Added missing 'site' argument to calculateProjectMetrics
-        const metrics = FinanceEngine.calculateProjectMetrics(cashflow, scen.settings, site);
+        const { metrics } = FinanceEngine.calculateScenarioMetrics(scen, site);
         return {
           uniqueKey: `${site.id}-${scen.id}`,
           siteId: site.id,
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { FeasibilitySettings, RevenueItem, MonthlyFlow } from '../types';
+import { FinanceEngine } from '../services/financeEngine';
 
 interface Props {
   settings: FeasibilitySettings;
@@ -18,30 +19,19 @@ export const HoldStrategySettings: React.FC<Props> = ({ settings, revenues, cash
   // Guard against undefined strategy if user switches
   if (!holdStrategy) return null;
 
-  // Calculate Deemed Value
-  const totalDeemedValue = holdItems.reduce((acc, item) => {
-    const grossAnnual = (item.weeklyRent || 0) * 52 * item.units;
-    const netAnnual = grossAnnual * (1 - (item.opexRate || 0) / 100);
-    const capRate = (item.capRate || 5) / 100;
-    const val = capRate > 0 ? netAnnual / capRate : 0;
-    return acc + val;
-  }, 0);
+  // Refinance as executed by the engine; fall back to today's capitalised value before it runs
+  const refiFlow = cashflow.find(f => f.drawDownInvestment > 0);
+  const totalDeemedValue = refiFlow && holdStrategy.refinanceLvr > 0
+    ? refiFlow.drawDownInvestment / (holdStrategy.refinanceLvr / 100)
+    : holdItems.reduce((acc, item) => acc + FinanceEngine.calculateCapitalisedValue(item, settings), 0);
 
   const refiAmount = totalDeemedValue * (holdStrategy.refinanceLvr / 100);
 
-  // Estimate Debt to Clear at Refinance Month
-  // We look at the closing balance of the previous month to approximate the opening debt for the refi month
-  const refiMonthIndex = Math.min(holdStrategy.refinanceMonth, cashflow.length - 1);
-  let currentDebt = 0;
-  if (refiMonthIndex > 0) {
-      const prevFlow = cashflow[refiMonthIndex - 1];
-      if (prevFlow) {
-          currentDebt = prevFlow.balanceSenior + prevFlow.balanceMezz;
-      }
-  } else if (cashflow.length > 0) {
-      // Month 0 refi (unlikely but possible)
-      currentDebt = 0; 
-  }
+  // Construction debt cleared by the takeout (or the opening balance at the refinance month)
+  const prevFlow = cashflow[Math.min(holdStrategy.refinanceMonth, cashflow.length) - 1];
+  const currentDebt = refiFlow
+    ? refiFlow.repaySenior + refiFlow.repayMezz
+    : prevFlow ? prevFlow.balanceSenior + prevFlow.balanceMezz : 0;
 
   const netCash = refiAmount - currentDebt;
 
@@ -130,6 +130,19 @@ export const InvestmentSettings: React.FC<Props> = ({ settings, revenues, constr
                     </div>
                     <p className="text-[9px] text-slate-400 mt-1 italic">Used to calculate Exit Value in Year {holdStrategy.holdPeriodYears}</p>
                 </div>
+
+                <div>
+                    <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Completion Value</label>
+                    <select
+                        value={holdStrategy.completionValueBasis || 'MARKET'}
+                        onChange={(e) => updateStrategy('completionValueBasis', e.target.value)}
+                        className="w-full border-slate-200 rounded-md py-1.5 px-3 text-sm font-bold text-slate-700 focus:ring-emerald-500"
+                    >
+                        <option value="MARKET">At Market (Capitalised NOI)</option>
+                        <option value="COST">At Cost (Development Cost)</option>
+                    </select>
+                    <p className="text-[9px] text-slate-400 mt-1 italic">Asset value transferred from the development at completion</p>
+                </div>
             </div>
 
             {/* 2. Depreciation Split */}
@@ -164,7 +177,7 @@ export const InvestmentSettings: React.FC<Props> = ({ settings, revenues, constr
                         className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-emerald-500"
                     />
                     <div className="text-[10px] text-slate-400 mt-1">
-                        Est. Base: ${((constructionTotal * plantPct)/100 / 1000000).toFixed(2)}m (Diminishing Value)
+                        Est. Base: ${((constructionTotal * plantPct)/100 / 1000000).toFixed(2)}m (20% Diminishing Value)
                     </div>
                 </div>
             </div>
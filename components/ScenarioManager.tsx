@@ -36,8 +36,8 @@ const ScenarioCard: React.FC<ScenarioCardProps> = ({
   
   // Calculate "Quick Look" Metrics on the fly
   const metrics = useMemo(() => {
-    // Uses V2 finance engine signature (scenario, site)
-    const cashflow = FinanceEngine.calculateMonthlyCashflow(scenario, site);
+    // Linked Hold scenarios run on their Sell scenario's development basis
+    const { cashflow } = FinanceEngine.calculateScenarioMetrics(scenario, site);
     
     const totalOut = cashflow.reduce((acc, curr) => acc + curr.developmentCosts + curr.interestSenior + curr.interestMezz, 0);
     const totalIn = cashflow.reduce((acc, curr) => acc + curr.netRevenue, 0);
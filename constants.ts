@@ -1,5 +1,5 @@
 
-import { CostCategory, DistributionMethod, FeasibilitySettings, LineItem, RevenueItem, InputType, ScenarioStatus, Site, EquityMode, InterestRateMode, FeeBase, DebtLimitMethod, GstTreatment, SmartRates, FeasibilityScenario, TaxConfiguration } from './types';
+import { CostCategory, DistributionMethod, FeasibilitySettings, LineItem, RevenueItem, InputType, ScenarioStatus, Site, EquityMode, InterestRateMode, FeeBase, DebtLimitMethod, GstTreatment, SmartRates, FeasibilityScenario, TaxConfiguration, FundingSource } from './types';
 import { TaxLibrary } from './services/TaxLibrary';
 
 export const DEFAULT_RATES: SmartRates = {
@@ -15,6 +15,10 @@ export const DEFAULT_RATES: SmartRates = {
 
 export const DEFAULT_TAX_SCALES: TaxConfiguration = TaxLibrary.getDefaultScales();
 
+// Funding waterfall: equity in first and out last
+export const DEFAULT_DRAW_ORDER: FundingSource[] = [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE];
+export const DEFAULT_REPAYMENT_ORDER: FundingSource[] = [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY];
+
 export const INITIAL_SETTINGS: FeasibilitySettings = {
   description: "Standard residential feasibility",
   
@@ -112,7 +116,6 @@ export const INITIAL_COSTS: LineItem[] = [
     startDate: 0,
     span: 12,
     method: DistributionMethod.S_CURVE,
-    escalationRate: 0, // 0 implies use Global Growth Matrix
     gstTreatment: GstTreatment.TAXABLE
   }
 ];
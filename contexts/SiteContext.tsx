@@ -1,11 +1,11 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
 import { Site, FeasibilityScenario } from '../types-v2'; // Using V2 Types
 import { SmartRates, LineItem, TaxConfiguration, LeadStatus, CostCategory, ScenarioStatus } from '../types'; // Shared types
 import { MOCK_SITES, DEFAULT_RATES, DEFAULT_TAX_SCALES } from '../constants';
 import { STANDARD_LIBRARY } from '../costLibrary';
 import { safeParseScenario } from '../schemas';
-import { migrateAllSites } from '../migrate-to-v2';
+import { migrateAllSites, migrateSiteEscalation, migrateInheritedEscalation, ESCALATION_MIGRATION_KEY } from '../migrate-to-v2';
 
 // Define the shape of the context
 interface ProjectContextType {
@@ -48,12 +48,15 @@ const flattenLibrary = (lib: Record<CostCategory, LineItem[]>): LineItem[] => {
 
 export const ProjectProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // --- STATE ---
+  // Saved data from before 0% escalation meant "hold flat" is migrated once, on first load
+  const escalationMigrated = useRef(localStorage.getItem(ESCALATION_MIGRATION_KEY) !== null);
+
   // Initialize from LocalStorage if available, otherwise use MOCK_SITES
   const [sites, setSites] = useState<Site[]>(() => {
     const saved = localStorage.getItem('devfeas_sites');
     if (saved) {
-        const parsed = JSON.parse(saved);
-        return migrateAllSites(parsed); // Ensure migration on load
+        const parsed = migrateAllSites(JSON.parse(saved)); // Ensure migration on load
+        return escalationMigrated.current ? parsed : parsed.map(migrateSiteEscalation);
     }
     return migrateAllSites(MOCK_SITES); // Migrate mock data
   });
@@ -72,6 +75,7 @@ export const ProjectProvider: React.FC<{ children: ReactNode }> = ({ children })
   useEffect(() => {
     try {
         localStorage.setItem('devfeas_sites', JSON.stringify(sites));
+        localStorage.setItem(ESCALATION_MIGRATION_KEY, 'true');
     } catch (e) {
         console.error("Failed to save sites to local storage", e);
     }
@@ -86,7 +90,10 @@ export const ProjectProvider: React.FC<{ children: ReactNode }> = ({ children })
     if (savedTax) setTaxScales(JSON.parse(savedTax));
 
     const savedLib = localStorage.getItem('devfeas_admin_library');
-    if (savedLib) setCustomLibrary(JSON.parse(savedLib));
+    if (savedLib) {
+        const library: LineItem[] = JSON.parse(savedLib);
+        setCustomLibrary(escalationMigrated.current ? library : migrateInheritedEscalation(library));
+    }
     else setCustomLibrary(flattenLibrary(STANDARD_LIBRARY));
   }, []);
 
@@ -14,7 +14,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 0, // User input placeholder
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.MARGIN_SCHEME,
       defaultSpan: 1
     },
@@ -25,7 +24,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 5000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -36,7 +34,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 3500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     }
@@ -50,7 +47,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 4.5,
       inputType: InputType.PCT_CONSTRUCTION,
       method: DistributionMethod.S_CURVE,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 12
     },
@@ -61,7 +57,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 2.0,
       inputType: InputType.PCT_CONSTRUCTION,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 24
     },
@@ -72,7 +67,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 15000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 6
     },
@@ -83,7 +77,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 1.2,
       inputType: InputType.PCT_CONSTRUCTION,
       method: DistributionMethod.S_CURVE,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 12
     },
@@ -94,7 +87,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 12000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 3
     },
@@ -105,7 +97,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 15000,
       inputType: InputType.FIXED,
       method: DistributionMethod.S_CURVE,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 12
     },
@@ -116,7 +107,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 8000,
       inputType: InputType.FIXED,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 24
     },
@@ -127,7 +117,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 2500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -138,7 +127,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 3000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -149,7 +137,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 4500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -160,7 +147,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 3500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -171,7 +157,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 6000,
       inputType: InputType.FIXED,
       method: DistributionMethod.S_CURVE,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 6
     },
@@ -182,7 +167,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 7500,
       inputType: InputType.FIXED,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 12
     },
@@ -193,7 +177,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 2500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     },
@@ -204,7 +187,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 5500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     }
@@ -218,7 +200,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 3500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     },
@@ -229,7 +210,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 4500,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     },
@@ -240,7 +220,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 0.35,
       inputType: InputType.PCT_CONSTRUCTION,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     },
@@ -251,7 +230,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 5.0,
       inputType: InputType.PCT_REVENUE,
       method: DistributionMethod.END,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     },
@@ -262,7 +240,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 800,
       inputType: InputType.RATE_PER_UNIT,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     },
@@ -273,7 +250,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 5000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.GST_FREE,
       defaultSpan: 1
     }
@@ -298,7 +274,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 25000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 2
     },
@@ -309,7 +284,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 5.0,
       inputType: InputType.PCT_CONSTRUCTION,
       method: DistributionMethod.S_CURVE,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 12
     },
@@ -320,7 +294,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 10000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     }
@@ -334,8 +307,9 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 2.2,
       inputType: InputType.PCT_REVENUE,
       method: DistributionMethod.END,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
+      specialTag: 'AGENT_FEE',
+      exchangePct: 50,
       defaultSpan: 1
     },
     {
@@ -345,7 +319,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 15000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 3
     },
@@ -356,7 +329,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 50000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 3
     },
@@ -367,8 +339,8 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 1500,
       inputType: InputType.RATE_PER_UNIT,
       method: DistributionMethod.END,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
+      specialTag: 'LEGAL_SALES',
       defaultSpan: 1
     },
     {
@@ -378,7 +350,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 25000,
       inputType: InputType.FIXED,
       method: DistributionMethod.LINEAR,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 6
     }
@@ -414,7 +385,6 @@ const RAW_LIBRARY: Record<CostCategory, LibraryItem[]> = {
       amount: 10000,
       inputType: InputType.FIXED,
       method: DistributionMethod.UPFRONT,
-      escalationRate: 0,
       gstTreatment: GstTreatment.TAXABLE,
       defaultSpan: 1
     }
@@ -438,7 +408,9 @@ export const STANDARD_LIBRARY: Record<CostCategory, LineItem[]> = Object.entries
     span: item.defaultSpan || 1,
     method: item.method,
     escalationRate: item.escalationRate,
-    gstTreatment: item.gstTreatment
+    gstTreatment: item.gstTreatment,
+    specialTag: item.specialTag,
+    exchangePct: item.exchangePct
   }));
   return acc;
 }, {} as Record<CostCategory, LineItem[]>);
@@ -1,5 +1,5 @@
 
-import { Site as OldSite, SiteDNA, FeasibilitySettings as OldFeasibilitySettings, TaxState } from './types';
+import { Site as OldSite, SiteDNA, FeasibilitySettings as OldFeasibilitySettings, TaxState, LineItem, CostCategory } from './types';
 import { Site as NewSite, SiteIdentity, SiteAcquisition, SitePlanning, FeasibilityScenario as NewScenario } from './types-v2';
 
 /**
@@ -116,3 +116,32 @@ export function migrateSiteToV2(oldSite: OldSite): NewSite {
 export function migrateAllSites(oldSites: OldSite[]): NewSite[] {
   return oldSites.map(migrateSiteToV2);
 }
+
+/**
+ * Storage key recording that saved line items have had their escalation rates migrated
+ */
+export const ESCALATION_MIGRATION_KEY = 'devfeas_escalation_migrated';
+
+/**
+ * Line items used to save a 0% escalation rate to mean "follow the global growth matrix"; that is
+ * now an unset rate, and 0% holds the cost flat. Clears the inherited zeros, keeping statutory and
+ * scale-linked charges flat.
+ */
+export function migrateInheritedEscalation(items: LineItem[]): LineItem[] {
+  return items.map(item => {
+    const isStatutory = item.category === CostCategory.STATUTORY || (item.calculationLink && item.calculationLink !== 'NONE');
+    if (item.escalationRate !== 0 || isStatutory) return item;
+    const { escalationRate: _, ...inherited } = item;
+    return inherited;
+  });
+}
+
+/**
+ * Migrate the escalation rates of every scenario's line items on a site
+ */
+export function migrateSiteEscalation(site: NewSite): NewSite {
+  return {
+    ...site,
+    scenarios: site.scenarios.map(scenario => ({ ...scenario, costs: migrateInheritedEscalation(scenario.costs) }))
+  };
+}
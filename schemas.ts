@@ -2,7 +2,7 @@
 import { z } from 'zod';
 import { 
   DistributionMethod, InputType, InputScale, CostCategory, GstTreatment, ScenarioStatus, 
-  MilestoneLink, DebtLimitMethod, InterestRateMode, FeeBase, EquityMode, 
+  MilestoneLink, DebtLimitMethod, InterestRateMode, FeeBase, EquityMode, FundingSource, 
   TaxState, PermitStatus, FloodZone, StakeholderRole,
   RevenueStrategy, RevenueCalcMode
 } from './types';
@@ -34,22 +34,39 @@ export const LineItemSchema = z.object({
   span: z.number().int().min(1, "Duration must be at least 1 month"),
   linkToMilestone: z.nativeEnum(MilestoneLink).optional(),
   method: z.nativeEnum(DistributionMethod),
-  escalationRate: z.number().min(0).default(0),
+  escalationRate: z.number().min(0).optional(),
   gstTreatment: z.nativeEnum(GstTreatment),
-  sCurveSteepness: z.number().optional(),
-  milestones: z.record(z.number(), z.number()).optional(),
+  sCurveSteepness: z.number().positive().optional(),
+  milestones: z.record(z.coerce.number().int().min(0), z.number().min(0)).optional(),
   specialTag: LineItemTagSchema.optional(),
+  exchangePct: z.number().min(0).max(100).optional(),
   calculationLink: CalculationLinkSchema.optional()
 });
 
+const PriceReleaseSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  units: z.number().int().min(0),
+  priceUpliftPct: z.number().min(-100)
+});
+
 export const RevenueItemSchema = z.object({
   id: z.string().min(1),
   description: z.string().min(1),
   strategy: z.enum(['Sell', 'Hold']), // Zod enum from string literals matching type
-  calcMode: z.enum(['LUMP_SUM', 'QUANTITY_RATE']),
+  calcMode: z.enum(['LUMP_SUM', 'QUANTITY_RATE', 'RATE_PER_SQM', 'RATE_PER_CAR_SPACE']),
   units: z.number().int().min(0),
   pricePerUnit: z.number().safe(),
+  areaSqm: z.number().min(0).optional(),
   absorptionRate: z.number().min(0).optional(),
+  preSoldUnits: z.number().int().min(0).optional(),
+  isOffThePlan: z.boolean().optional(),
+  salesLaunchMonth: z.number().int().min(0).optional(),
+  depositPct: z.number().min(0).max(100).optional(),
+  depositTreatment: z.enum(['TRUST', 'RELEASED']).optional(),
+  settlementFailurePct: z.number().min(0).max(100).optional(),
+  releases: z.array(PriceReleaseSchema).optional(),
+  unitMixId: z.string().optional(),
   commissionRate: z.number().min(0).max(100),
   isTaxable: z.boolean(),
   weeklyRent: z.number().min(0).optional(),
@@ -61,6 +78,33 @@ export const RevenueItemSchema = z.object({
   offsetFromCompletion: z.number().int(),
   settlementSpan: z.number().int().min(0),
   specialTag: RevenueItemTagSchema.optional()
+}).refine(rev => (rev.releases || []).reduce((acc, release) => acc + release.units, 0) <= rev.units, {
+  message: 'Price releases cannot hold more units than the item',
+  path: ['releases']
+});
+
+const UnitMixRowSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  beds: z.number().int().min(0),
+  internalSqm: z.number().min(0),
+  externalSqm: z.number().min(0),
+  carSpaces: z.number().int().min(0),
+  count: z.number().int().min(0),
+  pricingBasis: z.enum(['PER_UNIT', 'PER_SQM']),
+  rate: z.number().min(0)
+});
+
+const UnitMixScheduleSchema = z.object({
+  rows: z.array(UnitMixRowSchema),
+  efficiencyPct: z.number().gt(0).max(100)
+});
+
+const DebtCovenantsSchema = z.object({
+  maxLtcPct: z.number().min(0).max(100).optional(),
+  maxLvrPct: z.number().min(0).max(100).optional(),
+  minPresaleCoverPct: z.number().min(0).optional(),
+  minIcr: z.number().min(0).optional()
 });
 
 const CapitalTierSchema = z.object({
@@ -76,8 +120,11 @@ const CapitalTierSchema = z.object({
   lineFeePct: z.number().min(0).optional(),
   limitMethod: z.nativeEnum(DebtLimitMethod).optional(),
   limit: z.number().optional(),
+  lvrLimit: z.number().min(0).max(100).optional(),
   activationMonth: z.number().int().optional(),
-  isInterestCapitalised: z.boolean().optional()
+  isInterestCapitalised: z.boolean().optional(),
+  interestReserveMonths: z.number().int().min(0).optional(),
+  covenants: DebtCovenantsSchema.optional()
 });
 
 const EquityStructureSchema = z.object({
@@ -95,7 +142,25 @@ const JointVentureSchema = z.object({
   enabled: z.boolean(),
   partnerName: z.string(),
   equitySplitPct: z.number().min(0).max(100),
-  profitSharePct: z.number().min(0).max(100)
+  profitSharePct: z.number().min(0).max(100),
+  preferredReturnPct: z.number().min(0).optional(),
+  promoteTiers: z.array(z.object({
+    id: z.string(),
+    hurdleIrrPct: z.number(),
+    partnerSharePct: z.number().min(0).max(100)
+  })).optional()
+});
+
+// Each source must appear exactly once in a waterfall order
+const FundingOrderSchema = z.array(z.nativeEnum(FundingSource))
+  .refine(order => order.length === Object.values(FundingSource).length && new Set(order).size === order.length, {
+    message: 'Waterfall order must list equity, senior and mezzanine exactly once'
+  });
+
+const FundingWaterfallSchema = z.object({
+  drawOrder: FundingOrderSchema,
+  repaymentOrder: FundingOrderSchema,
+  debtSweepPct: z.number().min(0).max(100)
 });
 
 const CapitalStackSchema = z.object({
@@ -103,7 +168,10 @@ const CapitalStackSchema = z.object({
   mezzanine: CapitalTierSchema,
   equity: EquityStructureSchema,
   jv: JointVentureSchema,
-  surplusInterestRate: z.number().min(0)
+  waterfall: FundingWaterfallSchema.optional(),
+  surplusInterestRate: z.number().min(0),
+  retainSurplusUntilDebtRepaid: z.boolean().optional(),
+  asIfCompleteValue: z.number().min(0).optional()
 });
 
 const AcquisitionSettingsSchema = z.object({
@@ -140,6 +208,7 @@ export const FeasibilitySettingsSchema = z.object({
     holdPeriodYears: z.number().int().min(0),
     annualCapitalGrowth: z.number(),
     terminalCapRate: z.number(),
+    completionValueBasis: z.enum(['COST', 'MARKET']).optional(),
     depreciationSplit: z.object({
       capitalWorksPct: z.number().min(0).max(100),
       plantPct: z.number().min(0).max(100)
@@ -148,7 +217,9 @@ export const FeasibilitySettingsSchema = z.object({
   discountRate: z.number(),
   gstRate: z.number().min(0).max(100),
   totalUnits: z.number().int().min(0),
+  unitMix: UnitMixScheduleSchema.optional(),
   useMarginScheme: z.boolean(),
+  gstSettlementLag: z.number().int().min(0).optional(),
   defaultEscalationRate: z.number().optional(),
   capitalStack: CapitalStackSchema
 });
@@ -0,0 +1,71 @@
+
+import { MonthlyFlow, CapitalTier, CovenantBreach, CovenantMeasure, CovenantMonth, CovenantRatios, CovenantResult, CovenantTier } from '../types';
+import { FeasibilityScenario } from '../types-v2';
+import { resolveGrossRealisationValue } from './financeEngine';
+
+const ratio = (numerator: number, denominator: number, scale = 100): number | null =>
+  denominator > 0 ? (numerator / denominator) * scale : null;
+
+const hasCovenants = (tier: CapitalTier): boolean => {
+  const c = tier.covenants;
+  return !!c && [c.maxLtcPct, c.maxLvrPct, c.minPresaleCoverPct, c.minIcr].some(v => (v || 0) > 0);
+};
+
+export const CovenantService = {
+  /**
+   * Tests each tier's covenants every month. Each tier is measured on the debt ranking up to and
+   * including it (senior plus the Hold investment loan, then mezzanine on top), and only in months
+   * where the tier itself is drawn. LTC is against total development cost, LVR against the gross
+   * realisation value, pre-sale cover is the contract value of unsettled pre-sales that month over debt
+   * and ICR is NOI over interest.
+   */
+  evaluate: (monthlyFlows: MonthlyFlow[], scenario: FeasibilityScenario, totalDevelopmentCost: number): CovenantResult => {
+    const { senior, mezzanine } = scenario.settings.capitalStack;
+    const realisationValue = resolveGrossRealisationValue(scenario);
+    const breaches: CovenantBreach[] = [];
+
+    const measure = (debt: number, interest: number, noi: number, presaleValue: number): CovenantRatios => ({
+      debt,
+      ltcPct: debt > 0 ? ratio(debt, totalDevelopmentCost) : null,
+      lvrPct: debt > 0 ? ratio(debt, realisationValue) : null,
+      presaleCoverPct: debt > 0 ? ratio(presaleValue, debt) : null,
+      icr: noi > 0 ? ratio(noi, interest, 1) : null
+    });
+
+    const test = (flow: MonthlyFlow, tierName: CovenantTier, tier: CapitalTier, ratios: CovenantRatios) => {
+      const c = tier.covenants;
+      if (!c) return;
+      const check = (measureName: CovenantMeasure, actual: number | null, threshold: number | undefined, isMinimum: boolean) => {
+        if (actual === null || !threshold || threshold <= 0) return;
+        if (isMinimum ? actual < threshold : actual > threshold) {
+          breaches.push({ monthIndex: flow.monthIndex, label: flow.label, tier: tierName, measure: measureName, actual, threshold });
+        }
+      };
+      check('LTC', ratios.ltcPct, c.maxLtcPct, false);
+      check('LVR', ratios.lvrPct, c.maxLvrPct, false);
+      check('PRESALE_COVER', ratios.presaleCoverPct, c.minPresaleCoverPct, true);
+      check('ICR', ratios.icr, c.minIcr, true);
+    };
+
+    const months: CovenantMonth[] = monthlyFlows.map(flow => {
+      const seniorDebt = flow.balanceSenior + flow.balanceInvestment;
+      const seniorInterest = flow.interestSenior + flow.investmentInterest;
+      const seniorRatios = measure(seniorDebt, seniorInterest, flow.netOperatingIncome, flow.preSaleValue);
+      const mezzRatios = measure(seniorDebt + flow.balanceMezz, seniorInterest + flow.interestMezz, flow.netOperatingIncome, flow.preSaleValue);
+
+      const before = breaches.length;
+      if (seniorDebt > 0) test(flow, 'senior', senior, seniorRatios);
+      if (flow.balanceMezz > 0) test(flow, 'mezzanine', mezzanine, mezzRatios);
+
+      return {
+        monthIndex: flow.monthIndex,
+        label: flow.label,
+        senior: seniorRatios,
+        mezzanine: mezzRatios,
+        breached: breaches.length > before
+      };
+    });
+
+    return { months, breaches, hasCovenants: hasCovenants(senior) || hasCovenants(mezzanine) };
+  }
+};
@@ -0,0 +1,78 @@
+
+import { DepreciationSchedule, DepreciationYear } from '../types';
+import { FeasibilitySettings } from '../types-v2';
+
+// Div 43 capital works: 2.5% p.a. prime cost on the construction cost (40 years)
+const CAPITAL_WORKS_RATE = 0.025;
+// Div 40 plant: diminishing value at 200% / effective life, on a blended 10 year effective life
+const PLANT_EFFECTIVE_LIFE_YEARS = 10;
+const PLANT_DV_RATE = 2 / PLANT_EFFECTIVE_LIFE_YEARS;
+
+export const DepreciationService = {
+  /**
+   * Monthly Div 43 and Div 40 deductions on the construction cost, from the completion month.
+   * Income years run in 12-month blocks from completion; diminishing value is charged on the
+   * written-down value at the start of each year. Deductions stop after `endMonth` (the sale).
+   */
+  calculateSchedule: (
+    constructionCost: number,
+    settings: FeasibilitySettings,
+    startMonth: number,
+    horizon: number,
+    endMonth: number = horizon
+  ): DepreciationSchedule => {
+    const capitalWorks = new Array(horizon + 1).fill(0);
+    const plant = new Array(horizon + 1).fill(0);
+    const split = settings.holdStrategy?.depreciationSplit;
+    if (!split || constructionCost <= 0) return { capitalWorks, plant };
+
+    const capitalWorksBase = constructionCost * (split.capitalWorksPct / 100);
+    let capitalWorksWdv = capitalWorksBase;
+    let plantWdv = constructionCost * (split.plantPct / 100);
+    let plantYearCharge = 0;
+
+    for (let m = Math.max(0, startMonth); m <= Math.min(horizon, endMonth); m++) {
+      if ((m - startMonth) % 12 === 0) plantYearCharge = plantWdv * PLANT_DV_RATE;
+
+      capitalWorks[m] = Math.min(capitalWorksWdv, capitalWorksBase * CAPITAL_WORKS_RATE / 12);
+      plant[m] = Math.min(plantWdv, plantYearCharge / 12);
+      capitalWorksWdv -= capitalWorks[m];
+      plantWdv -= plant[m];
+    }
+    return { capitalWorks, plant };
+  },
+
+  /**
+   * Rolls a monthly schedule up into income years from the start month, with closing written-down values.
+   */
+  buildAnnualSchedule: (schedule: DepreciationSchedule, constructionCost: number, settings: FeasibilitySettings, startMonth: number): DepreciationYear[] => {
+    const split = settings.holdStrategy?.depreciationSplit;
+    if (!split) return [];
+    let capitalWorksWdv = constructionCost * (split.capitalWorksPct / 100);
+    let plantWdv = constructionCost * (split.plantPct / 100);
+
+    const years: DepreciationYear[] = [];
+    const horizon = schedule.capitalWorks.length - 1;
+    for (let start = Math.max(0, startMonth); start <= horizon; start += 12) {
+      const end = Math.min(start + 11, horizon);
+      const sum = (values: number[]) => values.slice(start, end + 1).reduce((a, b) => a + b, 0);
+      const capitalWorks = sum(schedule.capitalWorks);
+      const plant = sum(schedule.plant);
+      if (capitalWorks === 0 && plant === 0) break;
+
+      capitalWorksWdv -= capitalWorks;
+      plantWdv -= plant;
+      years.push({
+        year: years.length + 1,
+        startMonth: start,
+        endMonth: end,
+        capitalWorks,
+        plant,
+        total: capitalWorks + plant,
+        closingCapitalWorks: capitalWorksWdv,
+        closingPlant: plantWdv
+      });
+    }
+    return years;
+  }
+};
@@ -1,12 +1,16 @@
 import Decimal from 'decimal.js';
 import { 
   LineItem, RevenueItem, MonthlyFlow, DistributionMethod, 
-  InputType, CostCategory, DebtLimitMethod, EquityMode, InterestRateMode, FeeBase, CapitalTier, GstTreatment, MilestoneLink, TaxConfiguration, TaxState,
-  ItemisedRow, ItemisedCategory, ItemisedCashflow, ProjectMetrics, LineItemSummary, GstAuditEntry
+  InputType, CostCategory, DebtLimitMethod, EquityMode, InterestRateMode, FeeBase, CapitalTier, DatedRate, GstTreatment, MilestoneLink, TaxConfiguration, TaxState,
+  ItemisedRow, ItemisedCategory, ItemisedCashflow, ProjectMetrics, LineItemSummary, GstAuditEntry, BasQuarter, ProjectTimeline, IrrResult, RentalFlows, SalesFlows, SalesProgramme, ReleaseTranche, HoldMetrics, DepreciationYear, DepreciationSchedule,
+  CapitalStack, FundingBasis, FundingSource, FundingWaterfall
 } from '../types';
 import { Site, FeasibilityScenario, FeasibilitySettings } from '../types-v2';
 import { TaxLibrary } from './TaxLibrary';
-import { DEFAULT_TAX_SCALES } from '../constants';
+import { GstService } from './gstService';
+import { DepreciationService } from './depreciationService';
+import { UnitMixService } from './unitMixService';
+import { DEFAULT_TAX_SCALES, DEFAULT_DRAW_ORDER, DEFAULT_REPAYMENT_ORDER } from '../constants';
 
 // --- Internal Pure Pipeline Helpers ---
 
@@ -16,26 +20,191 @@ export const getMonthLabel = (startDate: string, monthIndex: number): string =>
     return d.toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
 };
 
-export const distributeValue = (total: number, relativeMonth: number, item: LineItem): Decimal => {
-    if (relativeMonth < 0 || relativeMonth >= item.span) return new Decimal(0);
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+const normalCdf = (z: number): number => {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Normalised share of an item's total falling in each month of its span.
+ * Curves are integrated over each month so the weights sum to 1 before rounding.
+ */
+export const getDistributionWeights = (item: LineItem): number[] => {
     const span = item.span;
-    let factor = 0;
+    if (span <= 0) return [];
+    const weights = new Array(span).fill(0);
     switch (item.method) {
-        case DistributionMethod.LINEAR: factor = 1 / span; break;
-        case DistributionMethod.UPFRONT: factor = relativeMonth === 0 ? 1 : 0; break;
-        case DistributionMethod.END: factor = relativeMonth === span - 1 ? 1 : 0; break;
-        case DistributionMethod.S_CURVE:
-            const k = 12; 
-            const x0 = 0.5; 
+        case DistributionMethod.UPFRONT: weights[0] = 1; break;
+        case DistributionMethod.END: weights[span - 1] = 1; break;
+        case DistributionMethod.S_CURVE: {
+            const k = item.sCurveSteepness && item.sCurveSteepness > 0 ? item.sCurveSteepness : 12;
+            const x0 = 0.5;
             const s = (t: number) => 1 / (1 + Math.exp(-k * (t - x0)));
-            const start = s(relativeMonth / span);
-            const end = s((relativeMonth + 1) / span);
             const totalCurve = s(1) - s(0);
-            factor = (end - start) / totalCurve;
+            for (let m = 0; m < span; m++) weights[m] = (s((m + 1) / span) - s(m / span)) / totalCurve;
             break;
-        default: factor = 1 / span;
+        }
+        case DistributionMethod.BELL_CURVE: {
+            // Normal curve centred mid-span with +/-3 sigma at the span edges, truncated to the span
+            const mu = span / 2;
+            const sigma = span / 6;
+            const totalCurve = normalCdf((span - mu) / sigma) - normalCdf(-mu / sigma);
+            for (let m = 0; m < span; m++) weights[m] = (normalCdf((m + 1 - mu) / sigma) - normalCdf((m - mu) / sigma)) / totalCurve;
+            break;
+        }
+        case DistributionMethod.MILESTONE: {
+            // Relative month -> % of total; payments past the span land in the final month
+            let totalPct = 0;
+            Object.entries(item.milestones || {}).forEach(([month, pct]) => {
+                const m = Math.min(Math.max(Math.floor(Number(month)), 0), span - 1);
+                if (!Number.isFinite(m) || !(pct > 0)) return;
+                weights[m] += pct;
+                totalPct += pct;
+            });
+            if (totalPct > 0) return weights.map(w => w / totalPct);
+            return weights.fill(1 / span); // No schedule entered yet
+        }
+        default: weights.fill(1 / span);
     }
-    return new Decimal(total).mul(factor);
+    return weights;
+};
+
+/**
+ * Portion of an item's total falling in a month relative to its start.
+ * The final month takes the remainder so the distribution always reconciles to the total.
+ */
+export const distributeValue = (total: number, relativeMonth: number, item: LineItem): Decimal => {
+    if (relativeMonth < 0 || relativeMonth >= item.span) return new Decimal(0);
+    const weights = getDistributionWeights(item);
+    const amount = new Decimal(total);
+    if (relativeMonth < item.span - 1) return amount.mul(weights[relativeMonth]);
+    const allocated = weights.slice(0, -1).reduce((acc, w) => acc.plus(amount.mul(w)), new Decimal(0));
+    return amount.minus(allocated);
+};
+
+/**
+ * Resolves the annual escalation rate (%) applied to a line item.
+ * A line rate, including 0%, overrides the global growth matrix; construction
+ * falls back to the construction escalation, everything else to the default rate.
+ * Statutory-linked items (duty, land tax) are priced off their scales and never escalate.
+ */
+export const resolveEscalationRate = (item: LineItem, settings: FeasibilitySettings): number => {
+    if (item.calculationLink && item.calculationLink !== 'NONE') return 0;
+    if (item.escalationRate !== undefined && item.escalationRate !== null) return item.escalationRate;
+    if (item.category === CostCategory.CONSTRUCTION) return settings.growth?.constructionEscalation || 0;
+    return settings.defaultEscalationRate || 0;
+};
+
+/**
+ * Compounding factor for an annual rate applied monthly from the model start (month 0).
+ */
+export const getEscalationFactor = (annualRatePct: number, monthIndex: number): number => {
+    if (!annualRatePct || monthIndex <= 0) return 1;
+    const monthlyRate = Math.pow(1 + annualRatePct / 100, 1 / 12) - 1;
+    return Math.pow(1 + monthlyRate, monthIndex);
+};
+
+/**
+ * Resolves the project milestones (as month indices) that line items can be linked to.
+ * Construction starts after settlement plus the construction delay; its span is the
+ * furthest-reaching construction item (construction items are timed from construction start).
+ */
+export const resolveProjectTimeline = (settings: FeasibilitySettings, costs: LineItem[], site: Site): ProjectTimeline => {
+    const settlementMonth = site.acquisition.settlementPeriod || 0;
+    const constructionStartMonth = settlementMonth + (settings.constructionDelay || 0);
+    const constructionSpan = costs
+        .filter(c => c.category === CostCategory.CONSTRUCTION)
+        .reduce((max, c) => Math.max(max, (c.startDate || 0) + c.span), 0);
+
+    return {
+        settlementMonth,
+        constructionStartMonth,
+        constructionSpan,
+        constructionEndMonth: constructionStartMonth + constructionSpan
+    };
+};
+
+/**
+ * Absolute start month of a line item. Linked items are offset from their milestone;
+ * unlinked construction items run from construction start, everything else is absolute.
+ * A start before the model begins is brought forward to month 0 so the item keeps its full total.
+ */
+export const resolveLineItemStart = (item: LineItem, timeline: ProjectTimeline): number => {
+    const offset = item.startDate || 0;
+    switch (item.linkToMilestone) {
+        case MilestoneLink.ACQUISITION: return Math.max(0, timeline.settlementMonth + offset);
+        case MilestoneLink.CONSTRUCTION_START: return Math.max(0, timeline.constructionStartMonth + offset);
+        case MilestoneLink.CONSTRUCTION_END: return Math.max(0, timeline.constructionEndMonth + offset);
+        default:
+            return Math.max(0, item.category === CostCategory.CONSTRUCTION ? timeline.constructionStartMonth + offset : offset);
+    }
+};
+
+/**
+ * Month a revenue item starts to settle or lease. `offsetFromCompletion` counts from practical
+ * completion (the end of the construction programme), so extending the build moves the revenue
+ * with it and off-the-plan contracts settle once the building is delivered.
+ */
+export const resolveRevenueStart = (rev: RevenueItem, timeline: ProjectTimeline): number =>
+    timeline.constructionEndMonth + rev.offsetFromCompletion;
+
+// Monthly basis of a selling cost tagged to the sales programme: agent fees on contract value (the
+// exchange share as contracts exchange, the balance at settlement), sales legal fees per settlement
+const resolveSellingCostBasis = (item: LineItem, sales: SalesProgramme): number[] | null => {
+    if (item.category !== CostCategory.SELLING) return null;
+    if (item.specialTag === 'AGENT_FEE') {
+        const atExchange = Math.min(100, Math.max(0, item.exchangePct || 0)) / 100;
+        return sales.settlementValue.map((settled, m) => sales.exchangeValue[m] * atExchange + settled * (1 - atExchange));
+    }
+    if (item.specialTag === 'LEGAL_SALES') return sales.settlements;
+    return null;
+};
+
+/**
+ * Canonical monthly schedule (net of GST, escalated) for a single line item.
+ * Shared by the cashflow, itemised report and P&L summaries so all three reconcile.
+ * Given the sales programme, tagged selling costs fall as units exchange and settle: a % of revenue
+ * agent fee is charged on the contract value and a per-unit legal fee on each settlement, while
+ * other bases spread their total in the same proportions. Without sales they keep their own phasing.
+ */
+export const calculateLineItemFlows = (
+  item: LineItem,
+  settings: FeasibilitySettings,
+  site: Site,
+  constructionTotal: number,
+  estimatedRevenue: number,
+  timeline: ProjectTimeline,
+  taxScales: TaxConfiguration = DEFAULT_TAX_SCALES,
+  sales?: SalesProgramme
+): number[] => {
+    const total = calculateLineItemTotal(item, settings, site, constructionTotal, estimatedRevenue, taxScales);
+    const effectiveStart = resolveLineItemStart(item, timeline);
+    // The sales programme runs to the cashflow horizon, which passes the model duration when assets are held
+    const months = Math.max(settings.durationMonths, sales ? sales.settlements.length - 1 : 0) + 1;
+    const escalationRate = resolveEscalationRate(item, settings);
+
+    const basis = sales ? resolveSellingCostBasis(item, sales) : null;
+    const basisTotal = basis ? basis.reduce((a, b) => a + b, 0) : 0;
+    if (basis && basisTotal > 0) {
+        return Array.from({ length: months }, (_, m) => {
+            const driver = basis[m] || 0;
+            // Contract values are already escalated to the sale
+            if (item.specialTag === 'AGENT_FEE' && item.inputType === InputType.PCT_REVENUE) return driver * item.amount / 100;
+            const base = item.specialTag === 'LEGAL_SALES' && item.inputType === InputType.RATE_PER_UNIT
+                ? driver * item.amount
+                : total * driver / basisTotal;
+            return base * getEscalationFactor(escalationRate, m);
+        });
+    }
+
+    return Array.from({ length: months }, (_, m) => {
+        if (m < effectiveStart || m >= effectiveStart + item.span) return 0;
+        const base = distributeValue(total, m - effectiveStart, item);
+        return base.mul(getEscalationFactor(escalationRate, m)).toNumber();
+    });
 };
 
 export const calculateLineItemTotal = (
@@ -61,7 +230,7 @@ export const calculateLineItemTotal = (
         case InputType.PCT_CONSTRUCTION: driverValue = constructionTotal; return (driverValue * item.amount) / 100;
         case InputType.PCT_REVENUE: driverValue = estimatedRevenue; return (driverValue * item.amount) / 100;
         case InputType.RATE_PER_SQM: driverValue = site.identity.landArea; return driverValue * item.amount;
-        case InputType.RATE_PER_UNIT: driverValue = settings.totalUnits; return driverValue * item.amount;
+        case InputType.RATE_PER_UNIT: driverValue = UnitMixService.resolveTotalUnits(settings); return driverValue * item.amount;
         default: return item.amount;
     }
 };
@@ -72,42 +241,310 @@ export const calculateStampDuty = (price: number, state: TaxState, isForeign: bo
     return isForeign ? baseDuty + (price * 0.08) : baseDuty;
 };
 
-export const calculateIRR = (flows: number[]): number | null => {
+// NPV at a per-period rate where each flow falls at times[i] periods from the first
+const npvAtRate = (rate: number, flows: number[], times: number[]): number => {
+    return flows.reduce((acc, f, i) => acc + f / Math.pow(1 + rate, times[i]), 0);
+};
+
+const countSignChanges = (flows: number[]): number => {
+    const signs = flows.filter(f => f !== 0).map(Math.sign);
+    return signs.reduce((acc, sign, i) => (i > 0 && sign !== signs[i - 1] ? acc + 1 : acc), 0);
+};
+
+// Bisection within a bracket where NPV changes sign
+const bisectRate = (lo: number, hi: number, flows: number[], times: number[]): number => {
+    let fLo = npvAtRate(lo, flows, times);
+    for (let i = 0; i < 200 && hi - lo > 1e-12; i++) {
+        const mid = (lo + hi) / 2;
+        const fMid = npvAtRate(mid, flows, times);
+        if (Math.sign(fMid) === Math.sign(fLo)) { lo = mid; fLo = fMid; } else { hi = mid; }
+    }
+    return (lo + hi) / 2;
+};
+
+// Every root between -90% and 1,000% per period: scan NPV on a log grid and bisect each bracket
+const scanRateRoots = (flows: number[], times: number[]): number[] => {
+    const steps = 400;
+    const minLog = Math.log(0.1), maxLog = Math.log(11);
+    const roots: number[] = [];
+    let prevRate = Math.exp(minLog) - 1;
+    let prevNpv = npvAtRate(prevRate, flows, times);
+    for (let i = 1; i <= steps; i++) {
+        const rate = Math.exp(minLog + (maxLog - minLog) * (i / steps)) - 1;
+        const npv = npvAtRate(rate, flows, times);
+        if (Number.isFinite(npv) && Number.isFinite(prevNpv)) {
+            if (npv === 0) roots.push(rate);
+            else if (prevNpv !== 0 && Math.sign(npv) !== Math.sign(prevNpv)) roots.push(bisectRate(prevRate, rate, flows, times));
+        }
+        prevRate = rate;
+        prevNpv = npv;
+    }
+    return roots;
+};
+
+/**
+ * IRR solver with diagnostics. Flows fall at `times` periods from the first (default: one per period).
+ * Newton from a 10% guess handles the common case; when it diverges, or when more than one sign
+ * change means several rates may zero the NPV, the rate range is scanned and each bracket bisected.
+ * Ambiguous profiles report every root and return the one nearest the 10% guess.
+ */
+export const solveIRR = (flows: number[], times: number[] = flows.map((_, t) => t)): IrrResult => {
     const totalIn = flows.filter(f => f > 0).reduce((a, b) => a + b, 0);
     const totalOut = Math.abs(flows.filter(f => f < 0).reduce((a, b) => a + b, 0));
-    
-    // Feastudy Rule: If you don't return at least the principal, IRR is N/A
-    if (totalIn <= totalOut || totalOut === 0) return null;
+    const signChanges = countSignChanges(flows);
 
-    let guess = 0.1;
-    const maxIterations = 50;
-    const precision = 1e-7;
+    if (totalOut === 0) {
+        return { rate: null, status: 'NO_INVESTMENT', reason: 'No outflows, so there is nothing to earn a return on.', signChanges, roots: [] };
+    }
+    // Feastudy Rule: If you don't return at least the principal, IRR is N/A.
+    // Only conclusive for conventional (single sign change) profiles; others can still have positive roots.
+    if (totalIn <= totalOut && signChanges <= 1) {
+        return { rate: null, status: 'NOT_RECOVERED', reason: 'Inflows do not recover outflows, so the IRR is nil or negative.', signChanges, roots: [] };
+    }
 
-    for (let i = 0; i < maxIterations; i++) {
+    const guessRate = 0.1;
+    let newtonRate: number | null = null;
+    let guess = guessRate;
+    for (let i = 0; i < 50; i++) {
         let f = 0;
         let df = 0;
         for (let t = 0; t < flows.length; t++) {
-            const factor = Math.pow(1 + guess, t);
+            const factor = Math.pow(1 + guess, times[t]);
             f += flows[t] / factor;
-            df -= (t * flows[t]) / (factor * (1 + guess));
+            df -= (times[t] * flows[t]) / (factor * (1 + guess));
         }
-        if (Math.abs(f) < precision) return guess;
-        if (df === 0) break;
+        if (Math.abs(f) < 1e-7) { newtonRate = guess; break; }
+        if (df === 0 || !Number.isFinite(df)) break;
         guess = guess - f / df;
+        if (!(guess > -1)) break;
+    }
+
+    if (newtonRate !== null && newtonRate > -1 && newtonRate < 20 && signChanges <= 1) {
+        return { rate: newtonRate, status: 'OK', signChanges, roots: [newtonRate] };
     }
-    return (guess > -1 && guess < 20) ? guess : null;
+
+    const roots = scanRateRoots(flows, times);
+    if (roots.length === 0) {
+        return { rate: null, status: 'NO_CONVERGENCE', reason: 'No rate between -90% and 1,000% per period sets the NPV to zero.', signChanges, roots };
+    }
+    const nearest = roots.reduce((best, r) => (Math.abs(r - guessRate) < Math.abs(best - guessRate) ? r : best), roots[0]);
+    if (roots.length > 1) {
+        return {
+            rate: nearest,
+            status: 'MULTIPLE_ROOTS',
+            reason: `${signChanges} sign changes give ${roots.length} valid rates; reporting the one nearest ${guessRate * 100}%.`,
+            signChanges,
+            roots
+        };
+    }
+    return { rate: nearest, status: 'OK', signChanges, roots };
+};
+
+/**
+ * Monthly IRR (decimal) of a monthly series, or null when undefined. solveIRR gives the reason.
+ */
+export const calculateIRR = (flows: number[]): number | null => solveIRR(flows).rate;
+
+/**
+ * Net present value of monthly flows at an annual discount rate (%).
+ * The annual rate is converted to its effective monthly equivalent; month 0 is undiscounted.
+ */
+export const calculateNPV = (flows: number[], annualRatePct: number): number => {
+    const monthlyRate = Math.pow(1 + annualRatePct / 100, 1 / 12) - 1;
+    return flows.reduce((acc, f, t) => acc + f / Math.pow(1 + monthlyRate, t), 0);
+};
+
+/**
+ * Actual month-start dates for a monthly series beginning at the model start date.
+ */
+export const getFlowDates = (startDate: string, count: number): Date[] => {
+    return Array.from({ length: count }, (_, m) => {
+        const d = new Date(startDate);
+        d.setMonth(d.getMonth() + m);
+        return d;
+    });
+};
+
+// Actual/365 year fraction, as used by spreadsheet XNPV/XIRR
+const yearFraction = (from: Date, to: Date): number => (to.getTime() - from.getTime()) / (365 * 24 * 60 * 60 * 1000);
+
+/**
+ * Date-based NPV at an annual discount rate (%), discounted from the first date.
+ */
+export const calculateXNPV = (flows: number[], dates: Date[], annualRatePct: number): number => {
+    const rate = annualRatePct / 100;
+    return flows.reduce((acc, f, i) => acc + f / Math.pow(1 + rate, yearFraction(dates[0], dates[i])), 0);
+};
+
+/**
+ * Date-based IRR: the annual rate (decimal) at which XNPV is zero. Same solver and N/A rules as calculateIRR.
+ */
+export const calculateXIRR = (flows: number[], dates: Date[]): number | null => {
+    return solveIRR(flows, dates.map(d => yearFraction(dates[0], d))).rate;
+};
+
+/**
+ * Resolves the annual interest rate (%) a tier charges in a given month.
+ * Variable tiers step to the latest dated rate at or before the month;
+ * before the first step (and for single-rate tiers) the base rate applies.
+ */
+export const resolveInterestRate = (tier: CapitalTier, monthIndex: number): number => {
+    if (tier.rateMode !== InterestRateMode.VARIABLE || !tier.variableRates || tier.variableRates.length === 0) {
+        return tier.interestRate;
+    }
+    const step = tier.variableRates
+        .filter(r => r.month <= monthIndex)
+        .reduce<DatedRate | null>((latest, r) => (!latest || r.month >= latest.month ? r : latest), null);
+    return step ? step.rate : tier.interestRate;
+};
+
+/**
+ * Gross realisation value a lender sizes LVR against: the "as if complete" valuation when
+ * given, otherwise sale proceeds plus the capitalised value of held assets.
+ */
+export const resolveGrossRealisationValue = (scenario: FeasibilityScenario): number => {
+    const valuation = scenario.settings.capitalStack.asIfCompleteValue;
+    if (valuation && valuation > 0) return valuation;
+    return scenario.revenues.reduce((acc, rev) => acc + (rev.strategy === 'Hold'
+        ? calculateCapitalisedValue(rev, scenario.settings)
+        : calculateSaleValue(rev)), 0);
+};
+
+/**
+ * Facility limit: LTC on the cost basis, LVR on the realisation value, or the lesser of the two
+ * (`limit` as LTC, `lvrLimit` as LVR). A fixed facility with no amount is uncapped at cost.
+ */
+export const resolveFacilityLimit = (tier: CapitalTier, costBasis: number, valueBasis: number): Decimal => {
+    const ltc = new Decimal(costBasis).mul((tier.limit || 0) / 100);
+    switch (tier.limitMethod) {
+        case DebtLimitMethod.LTC: return ltc;
+        case DebtLimitMethod.LVR: return new Decimal(valueBasis).mul((tier.limit || 0) / 100);
+        case DebtLimitMethod.LESSER_OF: return Decimal.min(ltc, new Decimal(valueBasis).mul((tier.lvrLimit || 0) / 100));
+        default: return new Decimal(tier.limit || costBasis);
+    }
+};
+
+/**
+ * Cost bases for debt and equity sizing: the budgeted project costs (ex finance) plus acquisition.
+ */
+export const resolveFundingBasis = (scenario: FeasibilityScenario, site: Site, taxScales: TaxConfiguration = DEFAULT_TAX_SCALES): FundingBasis => {
+    const constructionTotal = scenario.costs
+        .filter(c => c.category === CostCategory.CONSTRUCTION)
+        .reduce((a, b) => a + b.amount, 0);
+    const estTotalRevenue = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
+
+    const budgetedHardCosts = scenario.costs
+        .filter(c => c.category !== CostCategory.FINANCE)
+        .reduce((acc, item) => {
+            return acc + calculateLineItemTotal(item, scenario.settings, site, constructionTotal, estTotalRevenue, taxScales);
+        }, 0);
+
+    const duty = calculateStampDuty(site.acquisition.purchasePrice, site.acquisition.stampDutyState, site.acquisition.isForeignBuyer, taxScales, site.acquisition.stampDutyOverride);
+    const agentFee = site.acquisition.purchasePrice * ((site.acquisition.buyersAgentFee || 0) / 100);
+    const acquisitionTotal = site.acquisition.purchasePrice + duty + agentFee + (site.acquisition.legalFeeEstimate || 0);
+
+    return {
+        purchasePrice: site.acquisition.purchasePrice,
+        acquisitionTotal,
+        hardCostBasis: budgetedHardCosts + acquisitionTotal
+    };
+};
+
+/**
+ * Equity available to draw by a month: the fixed sum, instalments dated on or before the month,
+ * or a percentage of the land (optionally with acquisition costs) or total cost basis.
+ * Pari-passu equity has no pool; it funds its share of each month's deficit instead.
+ */
+export const resolveEquityLimit = (equity: CapitalStack['equity'], basis: FundingBasis, month: number): Decimal => {
+    const pct = (equity.percentageInput || 0) / 100;
+    switch (equity.mode) {
+        case EquityMode.INSTALMENTS:
+            return (equity.instalments || [])
+                .filter(i => i.month <= month)
+                .reduce((acc, i) => acc.add(i.amount || 0), new Decimal(0));
+        case EquityMode.PCT_LAND:
+            return new Decimal(equity.includeAcquisitionCosts ? basis.acquisitionTotal : basis.purchasePrice).mul(pct);
+        case EquityMode.PCT_TOTAL_COST:
+            return new Decimal(basis.hardCostBasis).mul(pct);
+        case EquityMode.PCT_MONTHLY:
+            return new Decimal(0);
+        default:
+            return new Decimal(equity.initialContribution || 0);
+    }
+};
+
+/**
+ * Draw and repayment order for the funding waterfall, defaulting to equity first then senior and
+ * mezzanine, repaid senior, mezzanine then equity, with the whole surplus swept to debt.
+ */
+export const resolveFundingWaterfall = (capitalStack: CapitalStack): FundingWaterfall => ({
+    drawOrder: capitalStack.waterfall?.drawOrder?.length ? capitalStack.waterfall.drawOrder : DEFAULT_DRAW_ORDER,
+    repaymentOrder: capitalStack.waterfall?.repaymentOrder?.length ? capitalStack.waterfall.repaymentOrder : DEFAULT_REPAYMENT_ORDER,
+    debtSweepPct: capitalStack.waterfall?.debtSweepPct ?? 100
+});
+
+/**
+ * Interest reserve for a facility: `interestReserveMonths` of interest on the limit at the current
+ * rate, capped at the undrawn headroom.
+ */
+const fundInterestReserve = (tier: CapitalTier, ceiling: Decimal, balance: Decimal, rate: number): Decimal => {
+    const months = tier.interestReserveMonths || 0;
+    if (months <= 0) return new Decimal(0);
+    const target = ceiling.mul(rate / 100 / 12).mul(months);
+    return Decimal.max(0, Decimal.min(target, ceiling.sub(balance)));
+};
+
+/**
+ * Establishment fee for a facility: either a fixed amount or a percentage of the resolved limit.
+ */
+export const calculateEstablishmentFee = (tier: CapitalTier, facilityLimit: number): number => {
+    if (!tier.establishmentFee) return 0;
+    if (tier.establishmentFeeBase === FeeBase.FIXED) return tier.establishmentFee;
+    return facilityLimit * (tier.establishmentFee / 100);
 };
 
 export const annualiseMonthlyRate = (monthlyRate: number): number => {
     return Math.pow(1 + monthlyRate, 12) - 1;
 };
 
+/**
+ * Hold-period returns, measured on flows up to and including the terminal sale.
+ */
+const calculateHoldMetrics = (cashflow: MonthlyFlow[], equityFlows: number[], projectFlows: number[], peakEquity: number): HoldMetrics | undefined => {
+  const exitMonth = cashflow.findIndex(f => f.terminalSale > 0);
+  if (exitMonth < 0) return undefined;
+  const toExit = cashflow.slice(0, exitMonth + 1);
+  const toIRR = (flows: number[]) => {
+    const monthly = solveIRR(flows.slice(0, exitMonth + 1)).rate;
+    return monthly !== null ? annualiseMonthlyRate(monthly) * 100 : null;
+  };
+
+  const operatingMonths = toExit.filter(f => f.netOperatingIncome !== 0).length;
+  const operatingCash = toExit.reduce((acc, f) => acc + f.netOperatingIncome - f.investmentInterest, 0);
+  const annualCash = operatingMonths > 0 ? operatingCash / (operatingMonths / 12) : 0;
+  const equityIn = toExit.reduce((acc, f) => acc + f.drawDownEquity, 0);
+  const equityOut = toExit.reduce((acc, f) => acc + f.repayEquity, 0);
+
+  return {
+    exitMonth,
+    terminalValue: cashflow[exitMonth].terminalSale,
+    leveredIRR: toIRR(equityFlows),
+    unleveredIRR: toIRR(projectFlows),
+    cashOnCashYield: peakEquity > 0 ? (annualCash / peakEquity) * 100 : 0,
+    equityMultiple: equityIn > 0 ? equityOut / equityIn : 0
+  };
+};
+
 export const calculateProjectMetrics = (cashflow: MonthlyFlow[], settings: FeasibilitySettings, site: Site): ProjectMetrics => {
   const grossRealisation = cashflow.reduce((acc, c) => acc + c.grossRevenue + c.lendingInterestIncome, 0);
   const gstOnSales = cashflow.reduce((acc, c) => acc + c.gstOnSales, 0);
-  const netRealisation = grossRealisation - gstOnSales;
+  // Rental income is realised net of operating expenses and sales net of commission, matching MonthlyFlow.netRevenue
+  const operatingExpenses = cashflow.reduce((acc, c) => acc + c.operatingExpenses, 0);
+  const sellingCommission = cashflow.reduce((acc, c) => acc + c.sellingCommission, 0);
+  const netRealisation = grossRealisation - gstOnSales - operatingExpenses - sellingCommission;
   
-  const totalFinanceCost = cashflow.reduce((acc, curr) => acc + curr.interestSenior + curr.interestMezz + curr.lineFeeSenior, 0);
+  const totalFinanceCost = cashflow.reduce((acc, curr) => 
+      acc + curr.interestSenior + curr.interestMezz + curr.investmentInterest + curr.lineFeeSenior + curr.establishmentFeeSenior + curr.establishmentFeeMezz, 0);
   const devCostsNet = cashflow.reduce((acc, c) => acc + c.developmentCosts, 0);
   const totalCostNet = devCostsNet + totalFinanceCost;
   
@@ -133,31 +570,50 @@ export const calculateProjectMetrics = (cashflow: MonthlyFlow[], settings: Feasi
   const peakEquity = Math.max(...cashflow.map(f => f.balanceEquity));
   const marginOnEquity = peakEquity > 0 ? (exactProfit / peakEquity) * 100 : 0;
   
-  const equityMonthlyIRR = calculateIRR(equityFlows);
+  const equityIRRResult = solveIRR(equityFlows);
+  const equityMonthlyIRR = equityIRRResult.rate;
   const equityIRR = equityMonthlyIRR !== null ? annualiseMonthlyRate(equityMonthlyIRR) * 100 : null;
   
-  const projectFlows = cashflow.map(f => (f.netRevenue + f.lendingInterestIncome) - (f.developmentCosts / 1.1));
-  const projectMonthlyIRR = calculateIRR(projectFlows);
+  const projectFlows = cashflow.map(f => (f.netRevenue + f.lendingInterestIncome) - (f.developmentCosts / (1 + GstService.getRate(settings))));
+  const projectIRRResult = solveIRR(projectFlows);
+  const projectMonthlyIRR = projectIRRResult.rate;
   const projectIRR = projectMonthlyIRR !== null ? annualiseMonthlyRate(projectMonthlyIRR) * 100 : null;
 
+  // Discounted returns at the scenario hurdle rate, on model months and on actual dates
+  const discountRate = settings.discountRate || 0;
+  const flowDates = getFlowDates(settings.startDate, cashflow.length);
+  const equityNPV = calculateNPV(equityFlows, discountRate);
+  const projectNPV = calculateNPV(projectFlows, discountRate);
+  const equityXNPV = calculateXNPV(equityFlows, flowDates, discountRate);
+  const projectXNPV = calculateXNPV(projectFlows, flowDates, discountRate);
+  const equityXIRRRate = calculateXIRR(equityFlows, flowDates);
+  const projectXIRRRate = calculateXIRR(projectFlows, flowDates);
+
+  const hold = calculateHoldMetrics(cashflow, equityFlows, projectFlows, peakEquity);
+
   const landArea = site.identity.landArea || 1; 
   const purchasePrice = site.acquisition.purchasePrice;
-  const gfa = site.identity.totalGFA || 0;
-  const nsa = site.identity.totalNSA || 0;
+  const { gfa, nsa } = UnitMixService.resolveAreas(settings, site);
+  const totalUnits = UnitMixService.resolveTotalUnits(settings);
   const constructionCostTotal = cashflow.reduce((acc, c) => acc + (c.costBreakdown[CostCategory.CONSTRUCTION] || 0), 0);
 
   return {
-      grossRealisation, gstOnSales, netRealisation, totalCostGross, gstInputCredits, totalCostNet,
+      grossRealisation, gstOnSales, sellingCommission, netRealisation, totalCostGross, gstInputCredits, totalCostNet,
       netProfit: exactProfit, marginOnCost: devMarginPct, totalDevelopmentCost: totalCostNet,
       grossRevenue: grossRealisation, netRevenue: netRealisation, totalFinanceCost,
       devMarginPct, marginBeforeInterest, marginOnEquity, equityIRR, projectIRR,
+      equityXIRR: equityXIRRRate !== null ? equityXIRRRate * 100 : null,
+      projectXIRR: projectXIRRRate !== null ? projectXIRRRate * 100 : null,
+      irrDiagnostics: { equity: equityIRRResult, project: projectIRRResult },
+      hold,
+      equityNPV, projectNPV, equityXNPV, projectXNPV,
       gstCollected: gstOnSales, netGstPayable: gstOnSales - gstInputCredits,
       peakDebtAmount, peakDebtMonthIndex, peakDebtDate, peakEquity, residualLandValue: 0,
       ratios: {
           landCostPerSqm: purchasePrice / landArea,
           tdcPerSqm: totalCostNet / landArea,
           revenuePerSqm: nsa > 0 ? netRealisation / nsa : 0,
-          profitPerUnit: settings.totalUnits > 0 ? exactProfit / settings.totalUnits : 0
+          profitPerUnit: totalUnits > 0 ? exactProfit / totalUnits : 0
       },
       benchmarks: {
           constructionEfficiency: gfa > 0 ? constructionCostTotal / gfa : 0,
@@ -168,92 +624,512 @@ export const calculateProjectMetrics = (cashflow: MonthlyFlow[], settings: Feasi
   };
 };
 
+/**
+ * True when the month closes a calendar BAS quarter (Mar, Jun, Sep, Dec).
+ */
+export const isBasQuarterEnd = (startDate: string, monthIndex: number): boolean => {
+    const d = new Date(startDate);
+    d.setMonth(d.getMonth() + monthIndex);
+    return d.getMonth() % 3 === 2;
+};
+
+/**
+ * Share of taxable sale proceeds subject to GST: 1 under full GST, otherwise the margin
+ * over the site price plus any land line items bought under the margin scheme.
+ */
+const resolveMarginFactor = (scenario: FeasibilityScenario, site: Site, costFlows: { cost: LineItem; values: number[] }[]): number => {
+    if (!scenario.settings.useMarginScheme) return 1;
+    const marginSchemeLand = costFlows
+        .filter(({ cost }) => cost.gstTreatment === GstTreatment.MARGIN_SCHEME)
+        .reduce((acc, { values }) => acc + values.reduce((a, b) => a + b, 0), 0);
+    const taxableSales = scenario.revenues.filter(r => r.isTaxable && r.strategy !== 'Hold').reduce((acc, r) => acc + calculateSaleValue(r), 0);
+    return GstService.getMarginFactor(site.acquisition.purchasePrice + marginSchemeLand, taxableSales);
+};
+
+/**
+ * Gross value of a revenue item by its calculation mode: the rate times units or car spaces,
+ * the rate times NSA for per-sqm items, or the lump sum itself.
+ */
+export const resolveRevenueItemValue = (rev: RevenueItem): number => {
+    switch (rev.calcMode) {
+        case 'LUMP_SUM': return rev.pricePerUnit;
+        case 'RATE_PER_SQM': return (rev.areaSqm || 0) * rev.pricePerUnit;
+        default: return rev.units * rev.pricePerUnit;
+    }
+};
+
+/**
+ * Price releases of a Sell item, in selling order, priced off the item's base price per unit.
+ * Units not allocated to a release sell last at the base price; items without releases are one
+ * tranche. Lump sums and per-sqm items with no unit count sell as a single lot.
+ */
+export const resolvePriceReleases = (rev: RevenueItem): ReleaseTranche[] => {
+    const isLot = rev.calcMode === 'LUMP_SUM' || rev.calcMode === 'RATE_PER_SQM';
+    const units = isLot && rev.units <= 0 ? 1 : rev.units;
+    const basePrice = units > 0 ? resolveRevenueItemValue(rev) / units : 0;
+    const releases = rev.strategy === 'Hold' ? [] : (rev.releases || []);
+    if (releases.length === 0) return [{ label: rev.description, units, price: basePrice }];
+    const tranches = releases.map(release => ({
+        label: release.label,
+        units: release.units,
+        price: basePrice * (1 + release.priceUpliftPct / 100)
+    }));
+    const unreleased = units - releases.reduce((acc, release) => acc + release.units, 0);
+    if (unreleased > 0) tranches.push({ label: 'Unreleased', units: unreleased, price: basePrice });
+    return tranches;
+};
+
+/**
+ * Undiscounted, unescalated value of a revenue item across its price releases.
+ */
+export const calculateSaleValue = (rev: RevenueItem): number =>
+    resolvePriceReleases(rev).reduce((acc, tranche) => acc + tranche.units * tranche.price, 0);
+
+// Draws units from each release in order, returning the count taken from each
+const takeInReleaseOrder = (pool: number[], count: number): number[] => {
+    let remaining = count;
+    return pool.map((available, i) => {
+        const taken = Math.min(available, remaining);
+        pool[i] -= taken;
+        remaining -= taken;
+        return taken;
+    });
+};
+
+/**
+ * Sales programme of a Sell item, with units sold release by release and each price escalated
+ * by the sales price escalation from the model start to the month it is received. Standard items
+ * settle evenly over the settlement span from their completion offset. Off-the-plan items exchange
+ * the pre-sold units at the sales launch, then the absorption rate each month (all remaining stock
+ * at completion when no rate is set). Deposits on contracts exchanged before completion are held in
+ * trust, or released to the project under a deposit bond; those contracts settle over the settlement
+ * span from completion, less the failure rate, whose deposits are forfeited and whose units go back
+ * into stock. Later exchanges settle in full.
+ */
+export const calculateSalesFlows = (rev: RevenueItem, settings: FeasibilitySettings, timeline: ProjectTimeline, horizon: number): SalesFlows => {
+    const blank = () => new Array(horizon + 1).fill(0);
+    const tranches = resolvePriceReleases(rev);
+    const flows: SalesFlows = {
+        exchanges: blank(), settlements: blank(), revenue: blank(), taxableSupplies: blank(),
+        depositsReleased: blank(), depositsHeld: blank(), forfeitedDeposits: blank(), preSales: blank(), preSaleValue: blank(),
+        exchangeValue: blank(), settlementValue: blank(), releaseRevenue: tranches.map(blank)
+    };
+    const completion = resolveRevenueStart(rev, timeline);
+    const escalation = settings.growth?.salesPriceEscalation || 0;
+    const priceAt = (i: number, m: number) => tranches[i].price * getEscalationFactor(escalation, m);
+    const receive = (i: number, m: number, amount: number) => {
+        flows.revenue[m] += amount;
+        flows.releaseRevenue[i][m] += amount;
+    };
+    const totalUnits = tranches.reduce((acc, tranche) => acc + tranche.units, 0);
+    const preSold = Math.min(rev.preSoldUnits || 0, totalUnits);
+
+    if (!rev.isOffThePlan) {
+        const unsettled = tranches.map(tranche => tranche.units);
+        const preSoldByRelease = takeInReleaseOrder(tranches.map(tranche => tranche.units), preSold);
+        let remaining = 1;
+        for (let m = 0; m <= horizon; m++) {
+            if (m >= completion && m < completion + rev.settlementSpan) {
+                takeInReleaseOrder(unsettled, totalUnits / rev.settlementSpan).forEach((units, i) => {
+                    flows.settlements[m] += units;
+                    flows.exchangeValue[m] += units * priceAt(i, m);
+                    flows.settlementValue[m] += units * priceAt(i, m);
+                    flows.taxableSupplies[m] += units * priceAt(i, m);
+                    receive(i, m, units * priceAt(i, m));
+                });
+                remaining = Math.max(0, remaining - 1 / rev.settlementSpan);
+            }
+            flows.preSales[m] = preSold * remaining;
+            flows.preSaleValue[m] = preSoldByRelease.reduce((acc, units, i) => acc + units * priceAt(i, m), 0) * remaining;
+        }
+        return flows;
+    }
+
+    const span = Math.max(1, rev.settlementSpan);
+    const depositRate = (rev.depositPct ?? 10) / 100;
+    const inTrust = (rev.depositTreatment || 'TRUST') === 'TRUST';
+    const launch = Math.max(0, rev.salesLaunchMonth ?? timeline.constructionStartMonth);
+    const rate = rev.absorptionRate || 0;
+    // Per release: unsold stock (and the part of it returned by failed contracts), contracts on hand,
+    // deposits paid on them and contracts due to settle
+    const stock = tranches.map(tranche => tranche.units);
+    const returned = tranches.map(() => 0);
+    const onHand = tranches.map(() => 0);
+    const deposits = tranches.map(() => 0);
+    const toSettle = tranches.map(() => 0);
+    let trust = 0;
+
+    for (let m = 0; m <= horizon; m++) {
+        // Contracts fail at completion: the deposit is kept and the unit goes back on the market
+        if (m === completion) {
+            const failure = (rev.settlementFailurePct || 0) / 100;
+            tranches.forEach((_, i) => {
+                const forfeited = deposits[i] * failure;
+                flows.forfeitedDeposits[m] += forfeited;
+                flows.taxableSupplies[m] += forfeited;
+                // A released deposit was received at exchange; only a deposit held in trust comes in now
+                if (inTrust) {
+                    receive(i, m, forfeited);
+                    trust -= forfeited;
+                }
+                deposits[i] -= forfeited;
+                stock[i] += onHand[i] * failure;
+                returned[i] += onHand[i] * failure;
+                onHand[i] -= onHand[i] * failure;
+                toSettle[i] = onHand[i];
+            });
+        }
+
+        const available = stock.reduce((a, b) => a + b, 0);
+        let exchanged = m === launch ? Math.min(available, preSold) : 0;
+        if (m >= launch) exchanged += Math.min(available - exchanged, rate);
+        if (m === completion && rate <= 0) exchanged = available;
+
+        takeInReleaseOrder(stock, exchanged).forEach((units, i) => {
+            if (units === 0) return;
+            flows.exchanges[m] += units;
+            // Resold units already counted once as exchanged, on the contract that failed
+            const resold = Math.min(units, returned[i]);
+            returned[i] -= resold;
+            flows.exchangeValue[m] += (units - resold) * priceAt(i, m);
+            if (m < completion) {
+                const deposit = units * priceAt(i, m) * depositRate;
+                onHand[i] += units;
+                deposits[i] += deposit;
+                if (inTrust) {
+                    trust += deposit;
+                } else {
+                    flows.depositsReleased[m] += deposit;
+                    receive(i, m, deposit);
+                }
+            } else {
+                // Completed stock settles on exchange
+                flows.settlements[m] += units;
+                flows.settlementValue[m] += units * priceAt(i, m);
+                flows.taxableSupplies[m] += units * priceAt(i, m);
+                receive(i, m, units * priceAt(i, m));
+            }
+        });
+
+        if (m >= completion && m < completion + span) {
+            tranches.forEach((_, i) => {
+                if (toSettle[i] <= 0 || onHand[i] <= 0) return;
+                const settled = Math.min(onHand[i], toSettle[i] / span);
+                const deposit = deposits[i] * settled / onHand[i];
+                const value = settled * priceAt(i, m);
+                flows.settlements[m] += settled;
+                flows.settlementValue[m] += value;
+                flows.taxableSupplies[m] += value;
+                // Trust deposits are paid out to the project with the balance at settlement
+                receive(i, m, inTrust ? value : value - deposit);
+                if (inTrust) trust -= deposit;
+                deposits[i] -= deposit;
+                onHand[i] -= settled;
+            });
+        }
+
+        flows.depositsHeld[m] = Math.max(0, trust);
+        flows.preSales[m] = Math.max(0, onHand.reduce((a, b) => a + b, 0));
+        flows.preSaleValue[m] = onHand.reduce((acc, units, i) => acc + Math.max(0, units) * priceAt(i, m), 0);
+    }
+    return flows;
+};
+
+/**
+ * Operating cashflow of a Hold item from its completion offset to the end of the horizon.
+ * Occupancy ramps linearly over the lease-up period to the stabilised vacancy factor, rent steps up
+ * by the rental growth rate each lease year, and opex is taken as a share of collected rent.
+ */
+export const calculateRentalFlows = (rev: RevenueItem, settings: FeasibilitySettings, timeline: ProjectTimeline, horizon: number, endMonth: number = horizon): RentalFlows => {
+    const grossRent = new Array(horizon + 1).fill(0);
+    const opex = new Array(horizon + 1).fill(0);
+    const noi = new Array(horizon + 1).fill(0);
+    const startMonth = resolveRevenueStart(rev, timeline);
+    const monthlyRent = rev.units * (rev.weeklyRent || 0) * 52 / 12;
+    const occupancy = 1 - (rev.vacancyFactorPct || 0) / 100;
+    const leaseUp = rev.leaseUpMonths || 0;
+    const growth = (settings.growth?.rentalGrowth || 0) / 100;
+
+    for (let m = Math.max(0, startMonth); m <= Math.min(horizon, endMonth); m++) {
+        const k = m - startMonth;
+        const ramp = leaseUp > 0 ? Math.min(1, (k + 1) / leaseUp) : 1;
+        const rent = monthlyRent * Math.pow(1 + growth, Math.floor(k / 12)) * ramp * occupancy;
+        grossRent[m] = rent;
+        opex[m] = rent * ((rev.opexRate || 0) / 100);
+        noi[m] = rent - opex[m];
+    }
+    return { grossRent, opex, noi };
+};
+
+/**
+ * Annual NOI of a Hold item once stabilised (full lease-up, vacancy and opex applied),
+ * grown by the rental growth rate for each completed lease year.
+ */
+export const calculateStabilisedNOI = (rev: RevenueItem, settings: FeasibilitySettings, monthsOperating: number = 0): number => {
+    const grossAnnual = rev.units * (rev.weeklyRent || 0) * 52;
+    const growth = Math.pow(1 + (settings.growth?.rentalGrowth || 0) / 100, Math.floor(Math.max(0, monthsOperating) / 12));
+    return grossAnnual * growth * (1 - (rev.vacancyFactorPct || 0) / 100) * (1 - (rev.opexRate || 0) / 100);
+};
+
+/**
+ * Capitalised value of a Hold item: stabilised NOI over its cap rate (5% when unset).
+ */
+export const calculateCapitalisedValue = (rev: RevenueItem, settings: FeasibilitySettings, monthsOperating: number = 0): number => {
+    const capRate = (rev.capRate || 5) / 100;
+    return capRate > 0 ? calculateStabilisedNOI(rev, settings, monthsOperating) / capRate : 0;
+};
+
+/**
+ * Month the held assets are sold: the hold period runs from construction completion.
+ * Null when the scenario holds nothing or no hold period is set.
+ */
+export const resolveHoldExitMonth = (scenario: FeasibilityScenario, timeline: ProjectTimeline): number | null => {
+    const years = scenario.settings.holdStrategy?.holdPeriodYears || 0;
+    if (years <= 0 || !scenario.revenues.some(rev => rev.strategy === 'Hold')) return null;
+    return timeline.constructionEndMonth + Math.round(years * 12);
+};
+
+// Terminal sale of a held asset on the following year's NOI at the terminal cap rate
+const calculateTerminalSale = (rev: RevenueItem, settings: FeasibilitySettings, timeline: ProjectTimeline, exitMonth: number): number => {
+    const startMonth = resolveRevenueStart(rev, timeline);
+    return calculateStabilisedNOI(rev, settings, exitMonth - startMonth) / ((settings.holdStrategy?.terminalCapRate || 5) / 100);
+};
+
+/**
+ * Contract value exchanged and settled, and units settled, each month across the Sell items.
+ */
+export const resolveSalesProgramme = (scenario: FeasibilityScenario, timeline: ProjectTimeline, horizon: number): SalesProgramme => {
+    const programme: SalesProgramme = {
+        exchangeValue: new Array(horizon + 1).fill(0),
+        settlementValue: new Array(horizon + 1).fill(0),
+        settlements: new Array(horizon + 1).fill(0)
+    };
+    scenario.revenues.filter(rev => rev.strategy !== 'Hold').forEach(rev => {
+        const sales = calculateSalesFlows(rev, scenario.settings, timeline, horizon);
+        (Object.keys(programme) as (keyof SalesProgramme)[]).forEach(key =>
+            sales[key].forEach((value, m) => programme[key][m] += value));
+    });
+    return programme;
+};
+
+/**
+ * Commission at each revenue item's rate, per month: on Sell item receipts as they come in, and on
+ * the terminal sale of Hold items at exit. One schedule per item, in scenario order. An AGENT_FEE
+ * selling cost takes the place of the Sell item rates, so only terminal sale commission remains.
+ */
+export const calculateCommissionFlows = (scenario: FeasibilityScenario, timeline: ProjectTimeline, horizon: number): number[][] => {
+    const exitMonth = resolveHoldExitMonth(scenario, timeline);
+    const agentFeeItemised = scenario.costs.some(cost => cost.category === CostCategory.SELLING && cost.specialTag === 'AGENT_FEE');
+    return scenario.revenues.map(rev => {
+        const rate = rev.commissionRate / 100;
+        if (rev.strategy !== 'Hold') {
+            if (agentFeeItemised) return new Array(horizon + 1).fill(0);
+            return calculateSalesFlows(rev, scenario.settings, timeline, horizon).revenue.map(v => v * rate);
+        }
+        const values = new Array(horizon + 1).fill(0);
+        if (exitMonth !== null && exitMonth <= horizon) values[exitMonth] = calculateTerminalSale(rev, scenario.settings, timeline, exitMonth) * rate;
+        return values;
+    });
+};
+
+/**
+ * Depreciation on the escalated construction cost of a scenario that holds assets,
+ * from completion until the terminal sale.
+ */
+const resolveDepreciation = (
+    scenario: FeasibilityScenario, timeline: ProjectTimeline, costFlows: { cost: LineItem; values: number[] }[], horizon: number
+): { constructionCost: number; schedule: DepreciationSchedule } => {
+    const holds = scenario.revenues.some(rev => rev.strategy === 'Hold');
+    const constructionCost = holds
+        ? costFlows
+            .filter(({ cost }) => cost.category === CostCategory.CONSTRUCTION)
+            .reduce((acc, { values }) => acc + values.reduce((a, b) => a + b, 0), 0)
+        : 0;
+    const exitMonth = resolveHoldExitMonth(scenario, timeline);
+    return {
+        constructionCost,
+        schedule: DepreciationService.calculateSchedule(constructionCost, scenario.settings, timeline.constructionEndMonth, horizon, exitMonth ?? horizon)
+    };
+};
+
+/**
+ * A Hold scenario linked to a Sell scenario takes its development basis from that scenario:
+ * costs, programme timing, cost escalation and the capital stack. Revenue, GST and the hold
+ * strategy stay with the Hold scenario.
+ */
+export const resolveLinkedScenario = (scenario: FeasibilityScenario, linkedScenario?: FeasibilityScenario): FeasibilityScenario => {
+    if (!linkedScenario || scenario.strategy !== 'HOLD' || scenario.linkedSellScenarioId !== linkedScenario.id) return scenario;
+    const development = linkedScenario.settings;
+    return {
+        ...scenario,
+        costs: linkedScenario.costs,
+        settings: {
+            ...scenario.settings,
+            startDate: development.startDate,
+            durationMonths: development.durationMonths,
+            constructionDelay: development.constructionDelay,
+            defaultEscalationRate: development.defaultEscalationRate,
+            growth: { ...scenario.settings.growth, constructionEscalation: development.growth.constructionEscalation },
+            capitalStack: development.capitalStack
+        }
+    };
+};
+
+/**
+ * The Sell scenario a Hold scenario is linked to, from among the site's scenarios.
+ */
+export const findLinkedScenario = (scenario: FeasibilityScenario, scenarios: FeasibilityScenario[]): FeasibilityScenario | undefined =>
+    scenario.strategy === 'HOLD' && scenario.linkedSellScenarioId
+        ? scenarios.find(s => s.id === scenario.linkedSellScenarioId)
+        : undefined;
+
+/**
+ * Monthly cashflow and headline metrics for one of a site's scenarios, on the same basis as the
+ * feasibility report: a linked Hold scenario runs on its Sell scenario's development basis.
+ */
+export const calculateScenarioMetrics = (
+  scenario: FeasibilityScenario,
+  site: Site,
+  taxScales: TaxConfiguration = DEFAULT_TAX_SCALES
+): { cashflow: MonthlyFlow[]; metrics: ProjectMetrics } => {
+    const linkedScenario = findLinkedScenario(scenario, site.scenarios);
+    const cashflow = calculateMonthlyCashflow(scenario, site, linkedScenario, taxScales);
+    const metrics = calculateProjectMetrics(cashflow, resolveLinkedScenario(scenario, linkedScenario).settings, site);
+    return { cashflow, metrics };
+};
+
 export const calculateMonthlyCashflow = (
-  scenario: FeasibilityScenario, 
+  sourceScenario: FeasibilityScenario, 
   site: Site, 
   linkedScenario?: FeasibilityScenario, 
   taxScales: TaxConfiguration = DEFAULT_TAX_SCALES
 ): MonthlyFlow[] => {
-    const horizon = scenario.settings.durationMonths;
+    const scenario = resolveLinkedScenario(sourceScenario, linkedScenario);
+    const timeline = resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    // Hold scenarios run past construction to the end of the hold period
+    const exitMonth = resolveHoldExitMonth(scenario, timeline);
+    const horizon = Math.max(scenario.settings.durationMonths, exitMonth ?? 0);
     const flows: MonthlyFlow[] = [];
     
     // --- 1. RESOLVE HARD COST BASIS (Ex Finance) ---
     const constructionTotal = scenario.costs
         .filter(c => c.category === CostCategory.CONSTRUCTION)
         .reduce((a, b) => a + b.amount, 0);
-    const estTotalRevenue = scenario.revenues.reduce((a, b) => a + (b.units * b.pricePerUnit), 0);
+    const estTotalRevenue = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
 
-    const budgetedHardCosts = scenario.costs
-        .filter(c => c.category !== CostCategory.FINANCE)
-        .reduce((acc, item) => {
-            return acc + calculateLineItemTotal(item, scenario.settings, site, constructionTotal, estTotalRevenue, taxScales);
-        }, 0);
+    const fundingBasis = resolveFundingBasis(scenario, site, taxScales);
+    const hardCostBasis = fundingBasis.hardCostBasis;
 
-    const duty = calculateStampDuty(site.acquisition.purchasePrice, site.acquisition.stampDutyState, site.acquisition.isForeignBuyer, taxScales, site.acquisition.stampDutyOverride);
-    const agentFee = site.acquisition.purchasePrice * ((site.acquisition.buyersAgentFee || 0) / 100);
-    const acquisitionTotal = site.acquisition.purchasePrice + duty + agentFee + (site.acquisition.legalFeeEstimate || 0);
+    const salesProgramme = resolveSalesProgramme(scenario, timeline, horizon);
+    const costFlows = scenario.costs.map(cost => ({
+        cost,
+        values: calculateLineItemFlows(cost, scenario.settings, site, constructionTotal, estTotalRevenue, timeline, taxScales, salesProgramme)
+    }));
+    const commissionFlows = calculateCommissionFlows(scenario, timeline, horizon);
 
-    const hardCostBasis = budgetedHardCosts + acquisitionTotal;
+    const holdItems = scenario.revenues.filter(rev => rev.strategy === 'Hold');
+    const { schedule: depreciation } = resolveDepreciation(scenario, timeline, costFlows, horizon);
+    const rentalFlows = holdItems.map(rev => calculateRentalFlows(rev, scenario.settings, timeline, horizon, exitMonth ?? horizon));
+    const salesFlows = scenario.revenues
+        .filter(rev => rev.strategy !== 'Hold')
+        .map(rev => ({ rev, sales: calculateSalesFlows(rev, scenario.settings, timeline, horizon) }));
+    const sumSales = (key: Exclude<keyof SalesFlows, 'releaseRevenue'>, m: number) => salesFlows.reduce((acc, { sales }) => acc + sales[key][m], 0);
+
+    // Takeout refinance of the construction facilities, only for Hold assets with a target LVR.
+    // An investment lender won't take out an unfinished building, so it waits for construction completion
+    const holdStrategy = scenario.settings.holdStrategy;
+    const takeoutMonth = holdStrategy ? Math.max(timeline.constructionEndMonth, holdStrategy.refinanceMonth) : 0;
+    const refinanceMonth = holdStrategy && holdItems.length > 0 && holdStrategy.refinanceLvr > 0 && takeoutMonth <= horizon
+        ? takeoutMonth
+        : null;
+    const investmentRate = holdStrategy?.investmentRate || 0;
+    const capitalGrowth = (holdStrategy?.annualCapitalGrowth || 0) / 100;
+
+    const gstRate = GstService.getRate(scenario.settings);
+    const marginFactor = resolveMarginFactor(scenario, site, costFlows);
+    // BAS settlements keyed by month, only when GST timing is modelled in the funding cashflow
+    const gstLag = scenario.settings.gstSettlementLag;
+    const gstSettlements: Record<number, number> = {};
+    let gstQuarterNet = 0;
 
     // --- 2. RESOLVE DEBT & EQUITY LIMITS ---
-    const resolveLimit = (tier: CapitalTier, basis: number) => {
-        if (tier.limitMethod === DebtLimitMethod.LTC) {
-            return new Decimal(basis).mul((tier.limit || 0) / 100);
-        }
-        return new Decimal(tier.limit || basis); 
-    };
+    const realisationValue = resolveGrossRealisationValue(scenario);
 
-    // Fix: Resolve dynamic equity limit based on mode
-    let resolvedEquityLimit = new Decimal(scenario.settings.capitalStack.equity.initialContribution);
-    if (scenario.settings.capitalStack.equity.mode === EquityMode.PCT_LAND) {
-        const purchasePrice = site.acquisition.purchasePrice;
-        const pct = scenario.settings.capitalStack.equity.percentageInput / 100;
-        let basis = purchasePrice;
-        if (scenario.settings.capitalStack.equity.includeAcquisitionCosts) {
-            basis = acquisitionTotal;
-        }
-        resolvedEquityLimit = new Decimal(basis).mul(pct);
-    }
+    const equity = scenario.settings.capitalStack.equity;
+    const pariPassuShare = equity.mode === EquityMode.PCT_MONTHLY ? (equity.percentageInput || 0) / 100 : 0;
+    const waterfall = resolveFundingWaterfall(scenario.settings.capitalStack);
+    const seniorCeiling = resolveFacilityLimit(scenario.settings.capitalStack.senior, hardCostBasis, realisationValue);
+    const mezzCeiling = resolveFacilityLimit(scenario.settings.capitalStack.mezzanine, hardCostBasis, realisationValue);
 
-    const equityLimit = resolvedEquityLimit;
-    const seniorCeiling = resolveLimit(scenario.settings.capitalStack.senior, hardCostBasis);
-    const mezzCeiling = resolveLimit(scenario.settings.capitalStack.mezzanine, hardCostBasis);
+    const seniorEstFee = calculateEstablishmentFee(scenario.settings.capitalStack.senior, seniorCeiling.toNumber());
+    const mezzEstFee = calculateEstablishmentFee(scenario.settings.capitalStack.mezzanine, mezzCeiling.toNumber());
 
     let seniorBal = new Decimal(0);
     let mezzBal = new Decimal(0);
     let equityBal = new Decimal(0);
+    let investmentBal = new Decimal(0);
+    // Project cash account: surplus retained while debt is outstanding, earning the surplus funds rate
+    const surplusRate = scenario.settings.capitalStack.surplusInterestRate || 0;
+    const retainSurplus = !!scenario.settings.capitalStack.retainSurplusUntilDebtRepaid;
+    let cashBal = new Decimal(0);
+    // Interest reserves are drawn from each facility at its first drawdown and meet its interest first
+    const reserves = { senior: new Decimal(0), mezzanine: new Decimal(0) };
+    const reserveFunded = { senior: false, mezzanine: false };
+    let costToDate = 0;
+    let completionCost = 0;
+
+    // Held assets are carried from completion at capitalised value (market) or development cost,
+    // grown at the capital growth rate
+    const resolveAssetValue = (m: number): number => {
+        const held = holdItems.filter(rev => m >= resolveRevenueStart(rev, timeline));
+        if (held.length === 0 || (exitMonth !== null && m > exitMonth)) return site.acquisition.purchasePrice + (m * 10000);
+        if (holdStrategy?.completionValueBasis === 'COST') {
+            return completionCost * Math.pow(1 + capitalGrowth, (m - timeline.constructionEndMonth) / 12);
+        }
+        return held.reduce((acc, rev) => {
+            const months = m - resolveRevenueStart(rev, timeline);
+            return acc + calculateCapitalisedValue(rev, scenario.settings) * Math.pow(1 + capitalGrowth, months / 12);
+        }, 0);
+    };
 
     for (let m = 0; m <= horizon; m++) {
         let grossRev = 0;
-        let sellingCosts = 0;
         let devSpend = 0;
         let gstCosts = 0;
+        let gstSales = 0;
+        let opex = 0;
+        let terminalSale = 0;
         const breakdown: Record<string, number> = {};
 
-        // 1. Process Revenue
-        scenario.revenues.forEach(rev => {
-            const startMonth = scenario.settings.constructionDelay + (site.acquisition.settlementPeriod || 0) + rev.offsetFromCompletion;
-            if (m >= startMonth && m < startMonth + rev.settlementSpan) {
-                const monthlyRev = (rev.units * rev.pricePerUnit) / rev.settlementSpan;
-                grossRev += monthlyRev;
-                sellingCosts += monthlyRev * (rev.commissionRate / 100);
-            }
+        // 1. Process Revenue (sales settle; Hold items earn rent, input-taxed so no GST)
+        // GST falls on the settled price; deposits released at exchange are receipts ahead of the supply
+        salesFlows.forEach(({ rev, sales }) => {
+            const received = sales.revenue[m];
+            grossRev += received;
+            if (rev.isTaxable) gstSales += GstService.calculateOutputTax(sales.taxableSupplies[m], gstRate, marginFactor);
+        });
+        rentalFlows.forEach(rental => {
+            grossRev += rental.grossRent[m];
+            opex += rental.opex[m];
         });
 
-        // 2. Process Costs
-        scenario.costs.forEach(cost => {
-            let effectiveStart = cost.startDate;
-            if (cost.category === CostCategory.CONSTRUCTION) {
-                effectiveStart += (site.acquisition.settlementPeriod || 0) + (scenario.settings.constructionDelay || 0);
-            }
+        // Terminal sale of the held assets at exit
+        if (m === exitMonth) {
+            holdItems.forEach(rev => terminalSale += calculateTerminalSale(rev, scenario.settings, timeline, m));
+            grossRev += terminalSale;
+        }
 
-            if (m >= effectiveStart && m < effectiveStart + cost.span) {
-                const total = calculateLineItemTotal(cost, scenario.settings, site, constructionTotal, estTotalRevenue, taxScales);
-                const monthly = distributeValue(total, m - effectiveStart, cost).toNumber();
-                devSpend += monthly;
-                if (cost.gstTreatment === GstTreatment.TAXABLE) gstCosts += monthly * 0.1;
-                breakdown[cost.category] = (breakdown[cost.category] || 0) + monthly;
-            }
+        // Commission is netted from receipts and reported with the selling costs
+        const sellingCosts = commissionFlows.reduce((acc, values) => acc + values[m], 0);
+        if (sellingCosts > 0) breakdown[CostCategory.SELLING] = sellingCosts;
+
+        // 2. Process Costs
+        costFlows.forEach(({ cost, values }) => {
+            const monthly = values[m] || 0;
+            if (monthly === 0) return;
+            devSpend += monthly;
+            gstCosts += GstService.calculateInputTax(monthly, cost.gstTreatment, gstRate);
+            breakdown[cost.category] = (breakdown[cost.category] || 0) + monthly;
         });
 
         // 3. Statutory & Land Acquisition (Implicit)
@@ -268,110 +1144,288 @@ export const calculateMonthlyCashflow = (
             breakdown[CostCategory.LAND] = (breakdown[CostCategory.LAND] || 0) + settlement;
         }
 
-        const netRev = grossRev - sellingCosts;
-        const totalOutflow = devSpend + gstCosts;
+        // 4. GST: quarterly BAS nets collections against credits and settles after the lag
+        if (gstLag !== undefined) {
+            gstQuarterNet += gstSales - gstCosts;
+            if (isBasQuarterEnd(scenario.settings.startDate, m) || m === horizon) {
+                const settleMonth = Math.min(m + gstLag, horizon);
+                gstSettlements[settleMonth] = (gstSettlements[settleMonth] || 0) + gstQuarterNet;
+                gstQuarterNet = 0;
+            }
+        }
+        const gstSettlement = gstSettlements[m] || 0;
+
+        const netRev = grossRev - sellingCosts - opex;
+        const totalOutflow = devSpend + gstCosts + gstSettlement;
         let netCash = netRev - totalOutflow;
 
         let dEquity = 0, rEquity = 0, dSenior = 0, rSenior = 0, dMezz = 0, rMezz = 0;
-        let intSn = 0, intMz = 0, lineFee = 0;
+        let intSn = 0, intMz = 0, lineFee = 0, estFeeSn = 0, estFeeMz = 0;
+        let dInvestment = 0, rInvestment = 0;
+        // Construction facilities are closed once the takeout loan is in place
+        const facilitiesClosed = refinanceMonth !== null && m >= refinanceMonth;
+
+        const rateSn = resolveInterestRate(scenario.settings.capitalStack.senior, m);
+        const rateMz = resolveInterestRate(scenario.settings.capitalStack.mezzanine, m);
+        intSn = seniorBal.mul(rateSn / 100 / 12).toNumber();
+        intMz = mezzBal.mul(rateMz / 100 / 12).toNumber();
 
-        intSn = seniorBal.mul(scenario.settings.capitalStack.senior.interestRate / 100 / 12).toNumber();
-        intMz = mezzBal.mul(scenario.settings.capitalStack.mezzanine.interestRate / 100 / 12).toNumber();
+        // Cash account and unspent reserves earn interest on the opening balance
+        const cashInterest = cashBal.add(reserves.senior).add(reserves.mezzanine).mul(surplusRate / 100 / 12).toNumber();
+        netCash += cashInterest;
+
+        const reservePaidSn = Decimal.min(intSn, reserves.senior);
+        const reservePaidMz = Decimal.min(intMz, reserves.mezzanine);
+        reserves.senior = reserves.senior.sub(reservePaidSn);
+        reserves.mezzanine = reserves.mezzanine.sub(reservePaidMz);
+        const intSnDue = intSn - reservePaidSn.toNumber();
+        const intMzDue = intMz - reservePaidMz.toNumber();
+        let dReserve = 0, releasedReserve = 0;
         
-        if (m >= (scenario.settings.capitalStack.senior.activationMonth || 0)) {
+        if (m >= (scenario.settings.capitalStack.senior.activationMonth || 0) && !facilitiesClosed) {
             lineFee = seniorCeiling.mul((scenario.settings.capitalStack.senior.lineFeePct || 0) / 100 / 12).toNumber();
         }
 
+        // Establishment fees fall due when each facility is activated
+        if (m === (scenario.settings.capitalStack.senior.activationMonth || 0)) estFeeSn = seniorEstFee;
+        if (m === (scenario.settings.capitalStack.mezzanine.activationMonth || 0)) estFeeMz = mezzEstFee;
+
+        // Facility fees are funding costs: they flow through the waterfall like any other outgoing
+        netCash -= (lineFee + estFeeSn + estFeeMz);
+
         if (scenario.settings.capitalStack.senior.isInterestCapitalised) {
             const capRoom = Decimal.max(0, seniorCeiling.sub(seniorBal));
-            const actualCap = Decimal.min(intSn, capRoom);
+            const actualCap = Decimal.min(intSnDue, capRoom);
             seniorBal = seniorBal.add(actualCap);
-            netCash -= (intSn - actualCap.toNumber());
+            netCash -= (intSnDue - actualCap.toNumber());
+        } else {
+            netCash -= intSnDue;
         }
 
         if (scenario.settings.capitalStack.mezzanine.isInterestCapitalised) {
             const capRoom = Decimal.max(0, mezzCeiling.sub(mezzBal));
-            const actualCap = Decimal.min(intMz, capRoom);
+            const actualCap = Decimal.min(intMzDue, capRoom);
             mezzBal = mezzBal.add(actualCap);
-            netCash -= (intMz - actualCap.toNumber());
+            netCash -= (intMzDue - actualCap.toNumber());
+        } else {
+            netCash -= intMzDue;
+        }
+
+        // Investment loan is interest-only, serviced from cash
+        const intInv = investmentBal.mul(investmentRate / 100 / 12).toNumber();
+        netCash -= intInv;
+
+        // Refinance proceeds and payouts are funding movements, not part of the project's net flow
+        const netFlow = netCash;
+        if (m === refinanceMonth) {
+            // Size the investment loan on capitalised NOI, clear senior and mezz, surplus flows to equity below
+            const assetValue = holdItems.reduce((acc, rev) => {
+                const startMonth = resolveRevenueStart(rev, timeline);
+                return acc + calculateCapitalisedValue(rev, scenario.settings, m - startMonth);
+            }, 0);
+            dInvestment = assetValue * (holdStrategy!.refinanceLvr / 100);
+            investmentBal = investmentBal.add(dInvestment);
+            rSenior = seniorBal.toNumber();
+            rMezz = mezzBal.toNumber();
+            releasedReserve = reserves.senior.add(reserves.mezzanine).toNumber();
+            reserves.senior = new Decimal(0);
+            reserves.mezzanine = new Decimal(0);
+            netCash += dInvestment + releasedReserve - rSenior - rMezz;
+            seniorBal = new Decimal(0);
+            mezzBal = new Decimal(0);
+        }
+        if (m === exitMonth) {
+            // Sale proceeds retire the investment loan
+            rInvestment = investmentBal.toNumber();
+            netCash -= rInvestment;
+            investmentBal = new Decimal(0);
+        }
+        if (m === horizon) {
+            // Reserves still unspent at the end of the model go back into the waterfall
+            const unspent = reserves.senior.add(reserves.mezzanine).toNumber();
+            releasedReserve += unspent;
+            netCash += unspent;
+            reserves.senior = new Decimal(0);
+            reserves.mezzanine = new Decimal(0);
+            // As does the cash account, so debt is cleared before equity takes the balance
+            netCash += cashBal.toNumber();
+            cashBal = new Decimal(0);
         }
 
         if (netCash < 0) {
-            let deficit = Math.abs(netCash) + lineFee;
-            
-            // 1. Draw Equity up to calculated limit
-            const eqAvail = Decimal.max(0, equityLimit.sub(equityBal));
-            const eqDraw = Decimal.min(deficit, eqAvail);
-            dEquity = eqDraw.toNumber();
-            equityBal = equityBal.add(eqDraw);
-            deficit -= dEquity;
+            let deficit = Math.abs(netCash);
 
-            if (deficit > 0) {
-                const snAvail = Decimal.max(0, seniorCeiling.sub(seniorBal));
-                const snDraw = Decimal.min(deficit, snAvail);
-                dSenior = snDraw.toNumber();
-                seniorBal = seniorBal.add(snDraw);
-                deficit -= dSenior;
+            // 0. Retained cash funds deficits before any new capital
+            const cashUsed = Decimal.min(deficit, cashBal);
+            cashBal = cashBal.sub(cashUsed);
+            deficit -= cashUsed.toNumber();
+            
+            // 1. Pari-passu equity takes its share of the month's deficit ahead of the ordered draws
+            if (equity.mode === EquityMode.PCT_MONTHLY) {
+                dEquity = deficit * pariPassuShare;
+                equityBal = equityBal.add(dEquity);
+                deficit -= dEquity;
             }
 
-            if (deficit > 0) {
-                const mzAvail = Decimal.max(0, mezzCeiling.sub(mezzBal));
-                const mzDraw = Decimal.min(deficit, mzAvail);
-                dMezz = mzDraw.toNumber();
-                mezzBal = mezzBal.add(mzDraw);
-                deficit -= dMezz;
+            // 2. Draw each source in the waterfall order; equity draws up to the pool available this month
+            const eqAvail = Decimal.max(0, resolveEquityLimit(equity, fundingBasis, m).sub(equityBal));
+            waterfall.drawOrder.forEach(source => {
+                if (deficit <= 0) return;
+                if (source === FundingSource.EQUITY) {
+                    if (equity.mode === EquityMode.PCT_MONTHLY) return;
+                    const eqDraw = Decimal.min(deficit, eqAvail);
+                    dEquity = eqDraw.toNumber();
+                    equityBal = equityBal.add(eqDraw);
+                    deficit -= dEquity;
+                } else if (source === FundingSource.SENIOR && !facilitiesClosed) {
+                    const snDraw = Decimal.min(deficit, Decimal.max(0, seniorCeiling.sub(seniorBal)));
+                    dSenior = snDraw.toNumber();
+                    seniorBal = seniorBal.add(snDraw);
+                    deficit -= dSenior;
+                } else if (source === FundingSource.MEZZANINE && !facilitiesClosed) {
+                    const mzDraw = Decimal.min(deficit, Decimal.max(0, mezzCeiling.sub(mezzBal)));
+                    dMezz = mzDraw.toNumber();
+                    mezzBal = mezzBal.add(mzDraw);
+                    deficit -= dMezz;
+                }
+            });
+
+            // Fund each interest reserve from its facility's headroom at first drawdown
+            if (dSenior > 0 && !reserveFunded.senior) {
+                const funded = fundInterestReserve(scenario.settings.capitalStack.senior, seniorCeiling, seniorBal, rateSn);
+                seniorBal = seniorBal.add(funded);
+                reserves.senior = reserves.senior.add(funded);
+                dReserve += funded.toNumber();
+                reserveFunded.senior = true;
+            }
+            if (dMezz > 0 && !reserveFunded.mezzanine) {
+                const funded = fundInterestReserve(scenario.settings.capitalStack.mezzanine, mezzCeiling, mezzBal, rateMz);
+                mezzBal = mezzBal.add(funded);
+                reserves.mezzanine = reserves.mezzanine.add(funded);
+                dReserve += funded.toNumber();
+                reserveFunded.mezzanine = true;
             }
 
-            // 4. Track Gap Equity (Deficit remaining after all limits)
+            // 3. Track Gap Equity (Deficit remaining after all limits)
             if (deficit > 0) {
                 dEquity += deficit;
                 equityBal = equityBal.add(deficit);
             }
         } else {
-            let surplus = netCash - lineFee;
-            
-            const snPay = Decimal.min(surplus, seniorBal);
-            rSenior = snPay.toNumber();
-            seniorBal = seniorBal.sub(snPay);
-            surplus -= rSenior;
-
-            const mzPay = Decimal.min(surplus, mezzBal);
-            rMezz = mzPay.toNumber();
-            mezzBal = mezzBal.sub(mzPay);
-            surplus -= rMezz;
-
-            rEquity = surplus;
-            equityBal = equityBal.sub(rEquity);
+            let surplus = netCash;
+            // Only the sweep share of the surplus is available to repay debt, until the final month
+            let sweep = m === horizon ? surplus : surplus * (waterfall.debtSweepPct / 100);
+            // Surplus is held back while debt is outstanding if required, or while construction debt
+            // is outstanding if only part of it is swept (the sweep never repays the investment loan)
+            const holdSurplus = () => m < horizon && (
+                (retainSurplus && seniorBal.add(mezzBal).add(investmentBal).gt(0)) ||
+                (waterfall.debtSweepPct < 100 && seniorBal.add(mezzBal).gt(0)));
+
+            waterfall.repaymentOrder.forEach(source => {
+                if (source === FundingSource.EQUITY) {
+                    // Return of equity capital ahead of any debt ranked below it, unless held back
+                    if (holdSurplus()) return;
+                    const eqPay = Decimal.min(surplus, Decimal.max(0, equityBal));
+                    rEquity += eqPay.toNumber();
+                    equityBal = equityBal.sub(eqPay);
+                    surplus -= eqPay.toNumber();
+                    sweep = Math.min(sweep, surplus);
+                    return;
+                }
+                const tier = source === FundingSource.SENIOR ? 'senior' : 'mezzanine';
+                const balance = tier === 'senior' ? seniorBal : mezzBal;
+
+                // Unspent reserves go toward the facility's final repayment
+                if (reserves[tier].gt(0) && reserves[tier].add(sweep).gte(balance)) {
+                    releasedReserve += reserves[tier].toNumber();
+                    surplus += reserves[tier].toNumber();
+                    sweep += reserves[tier].toNumber();
+                    reserves[tier] = new Decimal(0);
+                }
+
+                const pay = Decimal.min(sweep, balance).toNumber();
+                if (tier === 'senior') {
+                    rSenior += pay;
+                    seniorBal = seniorBal.sub(pay);
+                } else {
+                    rMezz += pay;
+                    mezzBal = mezzBal.sub(pay);
+                }
+                surplus -= pay;
+                sweep -= pay;
+            });
+
+            // Hold the balance in the cash account, or release it with any cash held to equity
+            if (holdSurplus()) {
+                cashBal = cashBal.add(surplus);
+            } else {
+                const released = cashBal.add(surplus);
+                rEquity += released.toNumber();
+                cashBal = new Decimal(0);
+                equityBal = equityBal.sub(released);
+            }
         }
+        if (m === horizon && cashBal.gt(0)) {
+            rEquity += cashBal.toNumber();
+            equityBal = equityBal.sub(cashBal);
+            cashBal = new Decimal(0);
+        }
+
+        costToDate += devSpend + intSn + intMz + lineFee + estFeeSn + estFeeMz;
+        if (m === timeline.constructionEndMonth) completionCost = costToDate;
 
         flows.push({
             monthIndex: m,
             label: getMonthLabel(scenario.settings.startDate, m),
             grossRevenue: grossRev,
-            gstOnSales: grossRev / 11,
+            gstOnSales: gstSales,
             netRevenue: netRev,
             developmentCosts: devSpend,
             gstOnCosts: gstCosts,
-            netCashflow: netCash,
+            gstSettlement,
+            operatingExpenses: opex,
+            netOperatingIncome: rentalFlows.reduce((acc, rental) => acc + rental.noi[m], 0),
+            terminalSale,
+            sellingCommission: sellingCosts,
+            unitsExchanged: sumSales('exchanges', m),
+            unitsSettled: sumSales('settlements', m),
+            preSales: sumSales('preSales', m),
+            preSaleValue: sumSales('preSaleValue', m),
+            depositsReleased: sumSales('depositsReleased', m),
+            depositsHeld: sumSales('depositsHeld', m),
+            forfeitedDeposits: sumSales('forfeitedDeposits', m),
+            netCashflow: netFlow,
             drawDownSenior: dSenior,
             repaySenior: rSenior,
             balanceSenior: seniorBal.toNumber(),
             interestSenior: intSn,
+            rateSenior: rateSn,
             lineFeeSenior: lineFee,
+            establishmentFeeSenior: estFeeSn,
             drawDownMezz: dMezz,
             repayMezz: rMezz,
             balanceMezz: mezzBal.toNumber(),
             interestMezz: intMz,
+            rateMezz: rateMz,
+            establishmentFeeMezz: estFeeMz,
+            drawDownInvestment: dInvestment,
+            repayInvestment: rInvestment,
+            balanceInvestment: investmentBal.toNumber(),
+            drawDownReserve: dReserve,
+            reserveInterestPaid: reservePaidSn.add(reservePaidMz).toNumber(),
+            releaseReserve: releasedReserve,
+            balanceReserve: reserves.senior.add(reserves.mezzanine).toNumber(),
+            balanceCash: cashBal.toNumber(),
             drawDownEquity: dEquity,
             repayEquity: rEquity,
             balanceEquity: equityBal.toNumber(),
-            lendingInterestIncome: 0,
+            lendingInterestIncome: cashInterest,
             costBreakdown: breakdown,
-            investmentInterest: 0,
-            depreciation: 0,
+            investmentInterest: intInv,
+            depreciation: depreciation.capitalWorks[m] + depreciation.plant[m],
             landTaxLiability: 0,
             statutoryValue: site.identity.auv || 0,
-            assetValue: site.acquisition.purchasePrice + (m * 10000), 
+            assetValue: resolveAssetValue(m), 
             inflationFactor: 1
         });
     }
@@ -388,7 +1442,21 @@ export const generateItemisedCashflowData = (
     
     // Get totals for relative calcs
     const constructionSum = scenario.costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a, b) => a + b.amount, 0);
-    const estTotalRev = scenario.revenues.reduce((a, b) => a + (b.units * b.pricePerUnit), 0);
+    const estTotalRev = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
+    const timeline = resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    const salesProgramme = resolveSalesProgramme(scenario, timeline, monthlyFlows.length - 1);
+
+    // Sell items: cash received per price release
+    const salesRows: ItemisedRow[] = [];
+    scenario.revenues.filter(rev => rev.strategy !== 'Hold').forEach(rev => {
+        const sales = calculateSalesFlows(rev, scenario.settings, timeline, monthlyFlows.length - 1);
+        const tranches = resolvePriceReleases(rev);
+        sales.releaseRevenue.forEach((values, i) => {
+            const label = tranches.length > 1 ? `${rev.description} - ${tranches[i].label}` : rev.description;
+            salesRows.push({ label, values, total: values.reduce((a, b) => a + b, 0) });
+        });
+    });
+    if (salesRows.length > 0) categories.push({ name: 'Sales Revenue', rows: salesRows });
 
     Object.values(CostCategory).forEach(catName => {
         const rows: ItemisedRow[] = [];
@@ -406,21 +1474,30 @@ export const generateItemisedCashflowData = (
             rows.push({ label: 'Land Settlement', values: settlementRowValues, total: settlementAmount });
         }
 
-        scenario.costs.filter(c => c.category === catName).forEach(cost => {
-            // FIX: Recalculate the SPECIFIC item's flow for this row
-            const totalItemAmount = calculateLineItemTotal(cost, scenario.settings, site, constructionSum, estTotalRev, taxScales);
-            
-            const rowValues = monthlyFlows.map((_, m) => {
-                let effectiveStart = cost.startDate;
-                if (cost.category === CostCategory.CONSTRUCTION) {
-                    effectiveStart += (site.acquisition.settlementPeriod || 0) + (scenario.settings.constructionDelay || 0);
-                }
+        if (catName === CostCategory.SELLING) {
+            calculateCommissionFlows(scenario, timeline, monthlyFlows.length - 1).forEach((values, i) => {
+                const total = values.reduce((a, b) => a + b, 0);
+                if (total > 0) rows.push({ label: `${scenario.revenues[i].description} - Commission`, values, total });
+            });
+        }
 
-                if (m >= effectiveStart && m < effectiveStart + cost.span) {
-                    return distributeValue(totalItemAmount, m - effectiveStart, cost).toNumber();
-                }
-                return 0;
+        if (catName === CostCategory.FINANCE) {
+            const financeRows: { label: string, getter: (f: MonthlyFlow) => number }[] = [
+                { label: 'Senior Establishment Fee', getter: f => f.establishmentFeeSenior },
+                { label: 'Mezzanine Establishment Fee', getter: f => f.establishmentFeeMezz },
+                { label: 'Senior Line Fee', getter: f => f.lineFeeSenior }
+            ];
+            financeRows.forEach(({ label, getter }) => {
+                const values = monthlyFlows.map(getter);
+                const total = values.reduce((a, b) => a + b, 0);
+                if (total > 0) rows.push({ label, values, total });
             });
+        }
+
+        scenario.costs.filter(c => c.category === catName).forEach(cost => {
+            // FIX: Recalculate the SPECIFIC item's flow for this row (escalated, same schedule as the engine)
+            const itemFlows = calculateLineItemFlows(cost, scenario.settings, site, constructionSum, estTotalRev, timeline, taxScales, salesProgramme);
+            const rowValues = monthlyFlows.map((_, m) => itemFlows[m] || 0);
 
             rows.push({ 
                 label: cost.description, 
@@ -435,16 +1512,35 @@ export const generateItemisedCashflowData = (
         }
     });
 
+    // Hold items: gross rent, opex and NOI per item, then the portfolio NOI
+    const horizon = monthlyFlows.length - 1;
+    const operatingRows: ItemisedRow[] = [];
+    const noiTotal = new Array(monthlyFlows.length).fill(0);
+    scenario.revenues.filter(rev => rev.strategy === 'Hold').forEach(rev => {
+        const rental = calculateRentalFlows(rev, scenario.settings, timeline, horizon, resolveHoldExitMonth(scenario, timeline) ?? horizon);
+        const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+        operatingRows.push({ label: `${rev.description} - Gross Rent`, values: rental.grossRent, total: sum(rental.grossRent) });
+        operatingRows.push({ label: `${rev.description} - Operating Expenses`, values: rental.opex, total: sum(rental.opex) });
+        rental.noi.forEach((v, m) => noiTotal[m] += v);
+    });
+    if (operatingRows.length > 0) {
+        operatingRows.push({ label: 'Net Operating Income', values: noiTotal, total: noiTotal.reduce((a, b) => a + b, 0) });
+        categories.push({ name: 'Net Operating Income', rows: operatingRows });
+    }
+
     return { headers: monthlyFlows.map(f => f.label), categories };
 };
 
 export const calculateLineItemSummaries = (scenario: FeasibilityScenario, site: Site, taxScales: TaxConfiguration = DEFAULT_TAX_SCALES): LineItemSummary[] => {
     const constructionTotal = scenario.costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a, b) => a + b.amount, 0);
-    const estTotalRev = scenario.revenues.reduce((a, b) => a + (b.units * b.pricePerUnit), 0);
+    const estTotalRev = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
+    const timeline = resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    const horizon = Math.max(scenario.settings.durationMonths, resolveHoldExitMonth(scenario, timeline) ?? 0);
+    const salesProgramme = resolveSalesProgramme(scenario, timeline, horizon);
     
-    return scenario.costs.map(c => {
-        const net = calculateLineItemTotal(c, scenario.settings, site, constructionTotal, estTotalRev, taxScales);
-        const gst = c.gstTreatment === GstTreatment.TAXABLE ? net * 0.1 : 0;
+    const items: LineItemSummary[] = scenario.costs.map(c => {
+        const net = calculateLineItemFlows(c, scenario.settings, site, constructionTotal, estTotalRev, timeline, taxScales, salesProgramme).reduce((a, b) => a + b, 0);
+        const gst = GstService.calculateInputTax(net, c.gstTreatment, GstService.getRate(scenario.settings));
         return {
             id: c.id,
             category: c.category,
@@ -455,10 +1551,97 @@ export const calculateLineItemSummaries = (scenario: FeasibilityScenario, site:
             isImplicit: false
         };
     });
+
+    // Revenue item commission is netted from receipts in the cashflow, so no input tax is claimed on it
+    calculateCommissionFlows(scenario, timeline, horizon).forEach((values, i) => {
+        const net = values.reduce((a, b) => a + b, 0);
+        if (net <= 0) return;
+        const rev = scenario.revenues[i];
+        items.push({
+            id: `commission-${rev.id}`,
+            category: CostCategory.SELLING,
+            description: `${rev.description} - Commission`,
+            netAmount: net,
+            gstAmount: 0,
+            grossAmount: net,
+            isImplicit: true
+        });
+    });
+    return items;
+};
+
+export const generateGstAuditTrail = (scenario: FeasibilityScenario, site: Site, taxScales: TaxConfiguration = DEFAULT_TAX_SCALES): GstAuditEntry[] => {
+    const constructionTotal = scenario.costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a, b) => a + b.amount, 0);
+    const estTotalRev = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
+    const timeline = resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    const horizon = Math.max(scenario.settings.durationMonths, resolveHoldExitMonth(scenario, timeline) ?? 0);
+    const salesProgramme = resolveSalesProgramme(scenario, timeline, horizon);
+    const costFlows = scenario.costs.map(cost => ({
+        cost,
+        values: calculateLineItemFlows(cost, scenario.settings, site, constructionTotal, estTotalRev, timeline, taxScales, salesProgramme)
+    }));
+    const gstRate = GstService.getRate(scenario.settings);
+    const marginFactor = resolveMarginFactor(scenario, site, costFlows);
+
+    // Sale prices are GST-inclusive and escalated to settlement, as in the cashflow; costs are entered net
+    const income: GstAuditEntry[] = scenario.revenues.filter(rev => rev.strategy !== 'Hold').map(rev => {
+        const gross = calculateSalesFlows(rev, scenario.settings, timeline, horizon).taxableSupplies.reduce((a, b) => a + b, 0);
+        const gst = rev.isTaxable ? GstService.calculateOutputTax(gross, gstRate, marginFactor) : 0;
+        return { id: rev.id, label: rev.description, category: 'Income', amountWithGst: gross, gstComponent: gst, preGstAmount: gross - gst };
+    });
+    const costs: GstAuditEntry[] = costFlows.map(({ cost, values }) => {
+        const net = values.reduce((a, b) => a + b, 0);
+        const gst = GstService.calculateInputTax(net, cost.gstTreatment, gstRate);
+        return { id: cost.id, label: cost.description, category: cost.category, amountWithGst: net + gst, gstComponent: gst, preGstAmount: net };
+    });
+    return [...income, ...costs];
 };
 
-export const generateGstAuditTrail = (scenario: FeasibilityScenario, site: Site, taxScales: TaxConfiguration = DEFAULT_TAX_SCALES): GstAuditEntry[] => [];
-export const calculateNPV = (flows: number[], rate: number) => 0;
+/**
+ * Annual Div 43 / Div 40 schedule for investors, by income year from completion.
+ */
+export const generateDepreciationSchedule = (scenario: FeasibilityScenario, site: Site, monthlyFlows: MonthlyFlow[], taxScales: TaxConfiguration = DEFAULT_TAX_SCALES): DepreciationYear[] => {
+    const constructionTotal = scenario.costs.filter(c => c.category === CostCategory.CONSTRUCTION).reduce((a, b) => a + b.amount, 0);
+    const estTotalRev = scenario.revenues.reduce((a, b) => a + calculateSaleValue(b), 0);
+    const timeline = resolveProjectTimeline(scenario.settings, scenario.costs, site);
+    const costFlows = scenario.costs.map(cost => ({
+        cost,
+        values: calculateLineItemFlows(cost, scenario.settings, site, constructionTotal, estTotalRev, timeline, taxScales)
+    }));
+    const { constructionCost, schedule } = resolveDepreciation(scenario, timeline, costFlows, monthlyFlows.length - 1);
+    if (constructionCost <= 0) return [];
+    return DepreciationService.buildAnnualSchedule(schedule, constructionCost, scenario.settings, timeline.constructionEndMonth);
+};
+
+/**
+ * Quarterly BAS: GST collected less input tax credits per calendar quarter, settled after the
+ * configured lag (default one month). A partial final quarter closes at the end of the horizon.
+ */
+export const generateBasSchedule = (monthlyFlows: MonthlyFlow[], settings: FeasibilitySettings): BasQuarter[] => {
+    const lag = settings.gstSettlementLag ?? 1;
+    const horizon = monthlyFlows.length - 1;
+    const quarters: BasQuarter[] = [];
+    let startMonth = 0, collected = 0, credits = 0;
+
+    monthlyFlows.forEach((flow, m) => {
+        collected += flow.gstOnSales;
+        credits += flow.gstOnCosts;
+        if (!isBasQuarterEnd(settings.startDate, m) && m !== horizon) return;
+        quarters.push({
+            label: startMonth === m ? flow.label : `${monthlyFlows[startMonth].label} – ${flow.label}`,
+            startMonth,
+            endMonth: m,
+            gstCollected: collected,
+            inputTaxCredits: credits,
+            netGst: collected - credits,
+            settlementMonth: Math.min(m + lag, horizon)
+        });
+        startMonth = m + 1;
+        collected = 0;
+        credits = 0;
+    });
+    return quarters;
+};
 export const getImplicitAcquisitionCosts = (price: number, state: TaxState, isForeign: boolean) => 0;
 
 const buildTimeline = (scenario: FeasibilityScenario, site: Site) => {
@@ -475,7 +1658,8 @@ const calcFundingSchedule = (scenario: any, site: any, timeline: any[], schedule
 
 export const FinanceEngine = {
   calculateLineItemTotal, calculateMonthlyCashflow, generateItemisedCashflowData,
-  calculateProjectMetrics, calculateLineItemSummaries, generateGstAuditTrail, getMonthLabel, calculateNPV,
-  calculateIRR, calculateStampDuty, getImplicitAcquisitionCosts, annualiseMonthlyRate, distributeValue,
+  calculateProjectMetrics, calculateLineItemSummaries, generateGstAuditTrail, generateBasSchedule, generateDepreciationSchedule, isBasQuarterEnd, getMonthLabel, calculateNPV,
+  calculateIRR, solveIRR, calculateXIRR, calculateXNPV, getFlowDates, calculateStampDuty, getImplicitAcquisitionCosts, annualiseMonthlyRate, distributeValue, getDistributionWeights, resolveRevenueItemValue, resolvePriceReleases, calculateSaleValue, calculateSalesFlows, resolveSalesProgramme, calculateCommissionFlows, calculateRentalFlows, calculateStabilisedNOI, calculateCapitalisedValue, resolveHoldExitMonth, resolveLinkedScenario, findLinkedScenario, calculateScenarioMetrics,
+  calculateLineItemFlows, resolveEscalationRate, resolveProjectTimeline, resolveLineItemStart, resolveRevenueStart, getEscalationFactor, resolveInterestRate, calculateEstablishmentFee, resolveFacilityLimit, resolveGrossRealisationValue, resolveFundingBasis, resolveEquityLimit, resolveFundingWaterfall,
   _internal: { buildTimeline, calcCostSchedule, calcRevenueSchedule, calcTaxSchedule, calcFundingSchedule }
 };
\ No newline at end of file
@@ -0,0 +1,40 @@
+
+import { GstTreatment, ReportModel } from '../types';
+import { FeasibilitySettings } from '../types-v2';
+
+export type GstMethod = ReportModel['basis']['gstMethod'];
+
+export const GstService = {
+  /**
+   * Configured GST rate as a decimal (10% -> 0.1).
+   */
+  getRate: (settings: FeasibilitySettings): number => (settings.gstRate ?? 10) / 100,
+
+  getMethod: (settings: FeasibilitySettings): GstMethod =>
+    settings.useMarginScheme ? 'MARGIN_SCHEME' : 'FULL_GST',
+
+  /**
+   * Claimable input tax credit on a GST-exclusive cost.
+   * Only taxable supplies carry a credit: margin-scheme land, GST-free and input-taxed items carry none.
+   */
+  calculateInputTax: (netAmount: number, treatment: GstTreatment, rate: number): number => {
+    return treatment === GstTreatment.TAXABLE ? netAmount * rate : 0;
+  },
+
+  /**
+   * Share of each taxable sale dollar that is margin under the margin scheme.
+   * The land acquisition cost is apportioned across taxable sales pro rata; a sale can't have a negative margin.
+   */
+  getMarginFactor: (marginBase: number, taxableSales: number): number => {
+    if (taxableSales <= 0) return 0;
+    return Math.max(0, 1 - marginBase / taxableSales);
+  },
+
+  /**
+   * GST component of GST-inclusive sale proceeds (1/11th at 10%).
+   * Under the margin scheme only the margin portion of the proceeds is taxed.
+   */
+  calculateOutputTax: (grossAmount: number, rate: number, marginFactor: number = 1): number => {
+    return grossAmount * marginFactor * (rate / (1 + rate));
+  }
+};
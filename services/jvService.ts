@@ -0,0 +1,110 @@
+
+import { MonthlyFlow, JvPartnerResult, JvTierResult, JvWaterfallResult } from '../types';
+import { FeasibilitySettings } from '../types-v2';
+import { solveIRR, annualiseMonthlyRate } from './financeEngine';
+
+// A band of the waterfall: the partner's share applies until the partner's IRR reaches the hurdle
+interface WaterfallBand {
+  label: string;
+  partnerShare: number;
+  hurdleMonthlyRate: number | null; // null = open-ended top band
+}
+
+const toMonthlyRate = (annualPct: number) => Math.pow(1 + annualPct / 100, 1 / 12) - 1;
+
+const buildPartnerResult = (name: string, contributions: number[], distributions: number[], totalProfit: number): JvPartnerResult => {
+  const totalContributed = contributions.reduce((a, b) => a + b, 0);
+  const totalDistributed = distributions.reduce((a, b) => a + b, 0);
+  const profit = totalDistributed - totalContributed;
+  const monthlyIRR = solveIRR(distributions.map((d, m) => d - contributions[m])).rate;
+  return {
+    name,
+    contributions,
+    distributions,
+    totalContributed,
+    totalDistributed,
+    profit,
+    profitSharePct: totalProfit > 0 ? (profit / totalProfit) * 100 : 0,
+    equityMultiple: totalContributed > 0 ? totalDistributed / totalContributed : 0,
+    irr: monthlyIRR !== null ? annualiseMonthlyRate(monthlyIRR) * 100 : null
+  };
+};
+
+export const JvService = {
+  /**
+   * Splits the project equity cashflow between the developer and the JV partner.
+   * Contributions follow the equity split. Distributions run down the waterfall:
+   * return of capital and the preferred return pro rata, then the profit share
+   * until the first promote hurdle, then each promote tier's split in turn.
+   * Hurdles are tested on the partner's own IRR, tracked as capital compounded
+   * at the hurdle rate less distributions received.
+   */
+  calculateWaterfall: (monthlyFlows: MonthlyFlow[], settings: FeasibilitySettings): JvWaterfallResult => {
+    const jv = settings.capitalStack.jv;
+    const equityShare = (jv.equitySplitPct || 0) / 100;
+    const tiers = [...(jv.promoteTiers || [])].sort((a, b) => a.hurdleIrrPct - b.hurdleIrrPct);
+
+    const bands: WaterfallBand[] = [{ label: 'Return of Capital', partnerShare: equityShare, hurdleMonthlyRate: 0 }];
+    if (jv.preferredReturnPct && jv.preferredReturnPct > 0) {
+      bands.push({ label: `Preferred Return (${jv.preferredReturnPct}%)`, partnerShare: equityShare, hurdleMonthlyRate: toMonthlyRate(jv.preferredReturnPct) });
+    }
+    bands.push({
+      label: 'Profit Share',
+      partnerShare: (jv.profitSharePct || 0) / 100,
+      hurdleMonthlyRate: tiers.length > 0 ? toMonthlyRate(tiers[0].hurdleIrrPct) : null
+    });
+    tiers.forEach((tier, i) => {
+      bands.push({
+        label: `Promote above ${tier.hurdleIrrPct}% IRR`,
+        partnerShare: tier.partnerSharePct / 100,
+        hurdleMonthlyRate: i + 1 < tiers.length ? toMonthlyRate(tiers[i + 1].hurdleIrrPct) : null
+      });
+    });
+
+    const hurdleBalances = bands.map(() => 0);
+    const tierResults: JvTierResult[] = bands.map(b => ({ label: b.label, partnerSharePct: b.partnerShare * 100, distributed: 0, toPartner: 0, toDeveloper: 0 }));
+    const devContributions: number[] = [], partnerContributions: number[] = [];
+    const devDistributions: number[] = [], partnerDistributions: number[] = [];
+
+    monthlyFlows.forEach(flow => {
+      const partnerIn = flow.drawDownEquity * equityShare;
+      partnerContributions.push(partnerIn);
+      devContributions.push(flow.drawDownEquity - partnerIn);
+
+      bands.forEach((band, i) => {
+        if (band.hurdleMonthlyRate === null) return;
+        hurdleBalances[i] = hurdleBalances[i] * (1 + band.hurdleMonthlyRate) + partnerIn;
+      });
+
+      let remaining = flow.repayEquity;
+      let toPartner = 0;
+      for (let i = 0; i < bands.length && remaining > 1e-9; i++) {
+        const band = bands[i];
+        const isOpen = band.hurdleMonthlyRate === null;
+        if (!isOpen && hurdleBalances[i] <= 1e-9) continue; // Hurdle already met
+
+        // Total distribution needed for the partner's share to close this band's hurdle
+        const needed = isOpen || band.partnerShare <= 0 ? Infinity : hurdleBalances[i] / band.partnerShare;
+        const amount = Math.min(remaining, needed);
+        const partnerAmount = amount * band.partnerShare;
+
+        toPartner += partnerAmount;
+        tierResults[i].distributed += amount;
+        tierResults[i].toPartner += partnerAmount;
+        tierResults[i].toDeveloper += amount - partnerAmount;
+        bands.forEach((b, k) => { if (b.hurdleMonthlyRate !== null) hurdleBalances[k] -= partnerAmount; });
+        remaining -= amount;
+      }
+
+      partnerDistributions.push(toPartner);
+      devDistributions.push(flow.repayEquity - toPartner);
+    });
+
+    const totalProfit = monthlyFlows.reduce((acc, f) => acc + f.repayEquity - f.drawDownEquity, 0);
+    return {
+      developer: buildPartnerResult('Developer', devContributions, devDistributions, totalProfit),
+      partner: buildPartnerResult(jv.partnerName || 'JV Partner', partnerContributions, partnerDistributions, totalProfit),
+      tiers: tierResults
+    };
+  }
+};
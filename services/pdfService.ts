@@ -1,6 +1,6 @@
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-import { CostCategory, MonthlyFlow, ItemisedCashflow, SensitivityRow, ReportModel, LineItem, GstTreatment, MilestoneLink, TaxConfiguration, SiteDNA } from "../types";
+import { CostCategory, MonthlyFlow, ItemisedCashflow, SensitivityRow, ReportModel, LineItem, GstTreatment, MilestoneLink, TaxConfiguration, SiteDNA, CovenantMeasure, CovenantRatios, CovenantTier, DebtCovenants } from "../types";
 import { Site, FeasibilityScenario } from "../types-v2";
 import { SensitivityCell } from "./sensitivityService";
 import { FinanceEngine } from "./financeEngine";
@@ -69,6 +69,10 @@ export class PdfService {
         includeSummary: boolean;
         includeAssetFactSheet: boolean;
         includePnL: boolean;
+        includeGstReport: boolean;
+        includeJvWaterfall: boolean;
+        includeCovenants: boolean;
+        includeProductMix: boolean;
         includeSensitivity: boolean;
         includeCashflow: boolean;
     }
@@ -94,6 +98,13 @@ export class PdfService {
         builder.addPageFooter(pageNum++, site.name);
     }
 
+    // 3b. Product Mix
+    if (config.includeProductMix && report.unitMix) {
+        builder.addNewPage("portrait");
+        builder.addProductMix(report);
+        builder.addPageFooter(pageNum++, site.name);
+    }
+
     // 4. Valuer's P&L
     if (config.includePnL) {
         builder.addNewPage("portrait");
@@ -101,6 +112,27 @@ export class PdfService {
         builder.addPageFooter(pageNum++, site.name);
     }
 
+    // 4b. GST Audit & BAS Schedule
+    if (config.includeGstReport) {
+        builder.addNewPage("portrait");
+        builder.addGstReport(report);
+        builder.addPageFooter(pageNum++, site.name);
+    }
+
+    // 4c. Joint Venture Distributions
+    if (config.includeJvWaterfall && report.jv) {
+        builder.addNewPage("portrait");
+        builder.addJvWaterfall(report);
+        builder.addPageFooter(pageNum++, site.name);
+    }
+
+    // 4d. Lender Covenant Compliance
+    if (config.includeCovenants && report.covenants.hasCovenants) {
+        builder.addNewPage("portrait");
+        builder.addCovenantCompliance(scenario, report);
+        builder.addPageFooter(pageNum++, site.name);
+    }
+
     // 5. Sensitivity Analysis
     if (config.includeSensitivity) {
         builder.addNewPage("portrait");
@@ -258,8 +290,12 @@ export class PdfService {
       drawDottedRow("Development Margin (MDC)", formatPct(metrics.devMarginPct), leftX, 80, true);
       drawDottedRow("Margin on Equity (MoE)", formatPct(metrics.marginOnEquity), leftX, 80, true);
       drawDottedRow("Internal Rate of Return (p.a.)", formatPct(metrics.equityIRR), leftX, 80, true);
+      drawDottedRow("XIRR (Dated, p.a.)", formatPct(metrics.equityXIRR), leftX, 80);
+      drawDottedRow(`Project NPV @ ${scenario.settings.discountRate}%`, formatCurrency(metrics.projectNPV), leftX, 80);
+      drawDottedRow(`Equity NPV @ ${scenario.settings.discountRate}%`, formatCurrency(metrics.equityNPV), leftX, 80);
       y += 4;
       drawDottedRow("Margin Before Interest", formatCurrency(metrics.marginBeforeInterest), leftX, 80);
+      const leftColumnEnd = y;
 
       y = this.currentY;
       this.doc.setFont(FONTS.header, "bold");
@@ -274,7 +310,7 @@ export class PdfService {
       drawDottedRow("GST Input Credits (Costs)", formatCurrency(metrics.gstInputCredits), rightX, 80);
       drawDottedRow("Net GST Payable", formatCurrency(metrics.netGstPayable), rightX, 80);
 
-      this.currentY = y + 10;
+      this.currentY = Math.max(y, leftColumnEnd) + 10;
 
       // Risk Box
       let isRisk = sensitivityMatrix && sensitivityMatrix.length > 4 && sensitivityMatrix[4][3] && sensitivityMatrix[4][3].margin < 0;
@@ -405,6 +441,7 @@ export class PdfService {
     addRow("GROSS REALISATION", null, null, 'header');
     addRow("Gross Sales Revenue", formatCurrency(metrics.grossRealisation), null);
     addRow("Less: GST Liability", formatCurrency(metrics.gstOnSales * -1), null, 'item', true);
+    if (metrics.sellingCommission > 0) addRow("Less: Sales Commission", formatCurrency(metrics.sellingCommission * -1), null, 'item', true);
     addRow("NET REALISATION", null, formatCurrency(metrics.netRealisation), 'total');
     addRow("", null, null, 'spacer');
 
@@ -464,6 +501,243 @@ export class PdfService {
     this.currentY = (this.doc as any).lastAutoTable.finalY + 15;
   }
 
+  private addGstReport(report: ReportModel) {
+    const basis = report.basis.gstMethod === 'MARGIN_SCHEME' ? 'Margin Scheme' : 'Full GST';
+    this.addPageHeader("Tax Reporting", `GST Audit & BAS Schedule (${basis})`, false);
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("Quarterly BAS Schedule", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Quarter', 'GST Collected', 'Input Credits', 'Net Payable / (Refund)', 'Settles']],
+        body: report.basSchedule.map(q => [
+            q.label,
+            formatCurrency(q.gstCollected),
+            formatCurrency(q.inputTaxCredits),
+            formatCurrency(q.netGst),
+            report.cashflow.monthly[q.settlementMonth]?.label || ''
+        ]),
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 1: { halign: 'right', font: FONTS.mono }, 2: { halign: 'right', font: FONTS.mono }, 3: { halign: 'right', font: FONTS.mono, fontStyle: 'bold' } }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 10;
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("GST Audit Trail", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Item', 'Category', 'Gross (Inc. GST)', 'GST', 'Net (Ex GST)']],
+        body: report.gstAudit.map(e => [
+            e.label,
+            e.category,
+            formatCurrency(e.amountWithGst),
+            formatCurrency(e.gstComponent),
+            formatCurrency(e.preGstAmount)
+        ]),
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 2: { halign: 'right', font: FONTS.mono }, 3: { halign: 'right', font: FONTS.mono }, 4: { halign: 'right', font: FONTS.mono } }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 15;
+  }
+
+  private addProductMix(report: ReportModel) {
+    const mix = report.unitMix!;
+    this.addPageHeader("Product Mix", `${mix.totalUnits} Units | ${formatCurrency(mix.nsa)} sqm NSA`, false);
+
+    const body = mix.lines.map(line => [
+        line.type,
+        line.beds.toString(),
+        line.count.toString(),
+        line.internalSqm.toFixed(1),
+        line.externalSqm.toFixed(1),
+        line.carSpaces.toString(),
+        formatCurrency(line.unitPrice),
+        formatCurrency(line.internalSqm > 0 ? line.unitPrice / line.internalSqm : 0),
+        formatCurrency(line.totalRevenue)
+    ]);
+    body.push([
+        'TOTAL', '', mix.totalUnits.toString(), formatCurrency(mix.nsa), formatCurrency(mix.externalSqm), mix.carSpaces.toString(),
+        formatCurrency(mix.averagePrice), formatCurrency(mix.averageRatePerSqm), formatCurrency(mix.grossRevenue)
+    ]);
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Type', 'Beds', 'Units', 'Int sqm', 'Ext sqm', 'Cars', 'Price / Unit', '$ / sqm', 'Gross Revenue']],
+        body,
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: {
+            1: { halign: 'center' }, 2: { halign: 'center' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'center' },
+            6: { halign: 'right', font: FONTS.mono }, 7: { halign: 'right', font: FONTS.mono }, 8: { halign: 'right', font: FONTS.mono }
+        },
+        didParseCell: (data) => {
+            if (data.section === 'body' && data.row.index === body.length - 1) data.cell.styles.fontStyle = 'bold';
+        }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 10;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Area Schedule', 'Value']],
+        body: [
+            ['Net Saleable Area (NSA)', `${formatCurrency(mix.nsa)} sqm`],
+            ['Gross Floor Area (GFA)', `${formatCurrency(mix.gfa)} sqm`],
+            ['Efficiency (NSA / GFA)', formatPct(mix.gfa > 0 ? mix.nsa / mix.gfa * 100 : null)],
+            ['External Area', `${formatCurrency(mix.externalSqm)} sqm`],
+            ['Car Spaces', mix.carSpaces.toString()]
+        ],
+        theme: 'grid',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 1: { halign: 'right', font: FONTS.mono } },
+        tableWidth: 100
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 15;
+  }
+
+  private addJvWaterfall(report: ReportModel) {
+    const jv = report.jv!;
+    this.addPageHeader("Joint Venture", `Distribution Waterfall (${jv.partner.name})`, false);
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("Partner Returns", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Partner', 'Contributed', 'Distributed', 'Profit', 'Profit Share', 'Multiple', 'IRR (p.a.)']],
+        body: [jv.developer, jv.partner].map(p => [
+            p.name,
+            formatCurrency(p.totalContributed),
+            formatCurrency(p.totalDistributed),
+            formatCurrency(p.profit),
+            formatPct(p.profitSharePct),
+            `${p.equityMultiple.toFixed(2)}x`,
+            formatPct(p.irr)
+        ]),
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 1: { halign: 'right', font: FONTS.mono }, 2: { halign: 'right', font: FONTS.mono }, 3: { halign: 'right', font: FONTS.mono, fontStyle: 'bold' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' } }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 10;
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("Waterfall Tiers", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Tier', 'Partner Split', 'Distributed', `To ${jv.partner.name}`, 'To Developer']],
+        body: jv.tiers.map(t => [
+            t.label,
+            formatPct(t.partnerSharePct),
+            formatCurrency(t.distributed),
+            formatCurrency(t.toPartner),
+            formatCurrency(t.toDeveloper)
+        ]),
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right', font: FONTS.mono }, 3: { halign: 'right', font: FONTS.mono }, 4: { halign: 'right', font: FONTS.mono } }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 15;
+  }
+
+  private addCovenantCompliance(scenario: FeasibilityScenario, report: ReportModel) {
+    const { months, breaches } = report.covenants;
+    this.addPageHeader("Covenant Compliance", breaches.length === 0 ? "All Tests Passed" : `${months.filter(m => m.breached).length} Breach Months`, false);
+
+    const measures: { key: CovenantMeasure; label: string; field: keyof DebtCovenants; ratio: keyof CovenantRatios; isMinimum: boolean; unit: 'pct' | 'x' }[] = [
+        { key: 'LTC', label: 'Loan to Cost', field: 'maxLtcPct', ratio: 'ltcPct', isMinimum: false, unit: 'pct' },
+        { key: 'LVR', label: 'Loan to Value', field: 'maxLvrPct', ratio: 'lvrPct', isMinimum: false, unit: 'pct' },
+        { key: 'PRESALE_COVER', label: 'Pre-Sale Cover', field: 'minPresaleCoverPct', ratio: 'presaleCoverPct', isMinimum: true, unit: 'pct' },
+        { key: 'ICR', label: 'Interest Cover', field: 'minIcr', ratio: 'icr', isMinimum: true, unit: 'x' }
+    ];
+    const format = (val: number | null, unit: 'pct' | 'x') => val === null ? "N/A" : unit === 'pct' ? formatPct(val) : `${val.toFixed(2)}x`;
+
+    const body: string[][] = [];
+    (['senior', 'mezzanine'] as CovenantTier[]).forEach(tier => {
+        const covenants = scenario.settings.capitalStack[tier].covenants;
+        measures.forEach(m => {
+            const threshold = covenants?.[m.field];
+            if (!threshold || threshold <= 0) return;
+            const tested = months.map(month => month[tier][m.ratio] as number | null).filter((v): v is number => v !== null);
+            const worst = tested.length === 0 ? null : m.isMinimum ? Math.min(...tested) : Math.max(...tested);
+            const breachCount = breaches.filter(b => b.tier === tier && b.measure === m.key).length;
+            body.push([
+                tier === 'senior' ? 'Senior' : 'Mezzanine',
+                m.label,
+                `${m.isMinimum ? 'Min' : 'Max'} ${format(threshold, m.unit)}`,
+                format(worst, m.unit),
+                breachCount.toString(),
+                breachCount > 0 ? 'BREACH' : 'PASS'
+            ]);
+        });
+    });
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("Covenant Summary", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Facility', 'Covenant', 'Requirement', 'Worst Case', 'Breach Months', 'Status']],
+        body,
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right', font: FONTS.mono }, 4: { halign: 'right' }, 5: { halign: 'center', fontStyle: 'bold' } },
+        didParseCell: (data) => {
+            if (data.section === 'body' && data.column.index === 5) {
+                data.cell.styles.textColor = data.cell.raw === 'BREACH' ? "#991b1b" : "#166534";
+            }
+        }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 10;
+
+    if (breaches.length === 0) return;
+
+    this.doc.setFontSize(11);
+    this.doc.setFont(FONTS.header, "bold");
+    this.doc.setTextColor(COLORS.primary);
+    this.doc.text("Breach Schedule", 20, this.currentY);
+    this.currentY += 5;
+
+    autoTable(this.doc, {
+        startY: this.currentY,
+        head: [['Month', 'Facility', 'Covenant', 'Actual', 'Requirement']],
+        body: breaches.map(b => {
+            const m = measures.find(x => x.key === b.measure)!;
+            return [b.label, b.tier === 'senior' ? 'Senior' : 'Mezzanine', m.label, format(b.actual, m.unit), format(b.threshold, m.unit)];
+        }),
+        theme: 'striped',
+        styles: { fontSize: 8, font: FONTS.body },
+        headStyles: { fillColor: COLORS.secondary },
+        columnStyles: { 3: { halign: 'right', font: FONTS.mono, textColor: "#991b1b" }, 4: { halign: 'right', font: FONTS.mono } }
+    });
+    this.currentY = (this.doc as any).lastAutoTable.finalY + 15;
+  }
+
   private addSensitivityAnalysis(matrix: SensitivityCell[][], scenario: FeasibilityScenario) {
     this.addPageHeader("Risk Analysis", "Sensitivity Matrix (Cost vs Revenue)", false);
     const steps = [-15, -10, -5, 0, 5, 10, 15];
@@ -2,6 +2,10 @@
 import { ReportModel, TaxConfiguration } from '../types';
 import { Site, FeasibilityScenario } from '../types-v2';
 import { FinanceEngine } from './financeEngine';
+import { GstService } from './gstService';
+import { JvService } from './jvService';
+import { CovenantService } from './covenantService';
+import { UnitMixService } from './unitMixService';
 import { DEFAULT_TAX_SCALES } from '../constants';
 
 export const ReportService = {
@@ -16,6 +20,9 @@ export const ReportService = {
     taxScales: TaxConfiguration = DEFAULT_TAX_SCALES
   ): ReportModel {
     
+    // 0. Linked Hold scenarios report on the development basis of their Sell scenario
+    const basis = FinanceEngine.resolveLinkedScenario(scenario, linkedScenario);
+
     // 1. Calculate Monthly Flows (The Engine)
     const monthlyFlows = FinanceEngine.calculateMonthlyCashflow(
         scenario, 
@@ -26,7 +33,7 @@ export const ReportService = {
 
     // 2. Calculate Itemised Flows (For Report Tables)
     const itemisedCashflow = FinanceEngine.generateItemisedCashflowData(
-        scenario, 
+        basis, 
         site,
         monthlyFlows,
         taxScales
@@ -34,31 +41,47 @@ export const ReportService = {
 
     // 3. Calculate Item Summaries (For P&L) - Precise Net/GST Calculation per Item
     const itemSummaries = FinanceEngine.calculateLineItemSummaries(
-        scenario,
+        basis,
         site,
         taxScales
     );
 
     // 4. Generate GST Audit Trail (For Detailed Tax Reporting)
     const gstAudit = FinanceEngine.generateGstAuditTrail(
-        scenario,
+        basis,
         site,
         taxScales
     );
 
-    // 5. Calculate Metrics (Using Canonical Logic)
-    const metrics = FinanceEngine.calculateProjectMetrics(monthlyFlows, scenario.settings, site);
+    // 5. Quarterly BAS schedule (GST collected vs credits claimed)
+    const basSchedule = FinanceEngine.generateBasSchedule(monthlyFlows, basis.settings);
+
+    // 6. Annual tax depreciation for held assets
+    const depreciation = FinanceEngine.generateDepreciationSchedule(basis, site, monthlyFlows, taxScales);
+
+    // 7. Calculate Metrics (Using Canonical Logic)
+    const metrics = FinanceEngine.calculateProjectMetrics(monthlyFlows, basis.settings, site);
+
+    // 8. Lender covenant tests per month
+    const covenants = CovenantService.evaluate(monthlyFlows, basis, metrics.totalDevelopmentCost);
 
-    // 6. Construct Report Model
+    // 9. Construct Report Model
     return {
         timestamp: new Date().toISOString(),
         basis: {
             pricesIncludeGST: true,
-            gstMethod: 'FULL_GST' 
+            gstMethod: GstService.getMethod(basis.settings)
         },
         metrics: metrics,
         itemSummaries: itemSummaries,
         gstAudit: gstAudit,
+        basSchedule: basSchedule,
+        jv: basis.settings.capitalStack.jv?.enabled
+            ? JvService.calculateWaterfall(monthlyFlows, basis.settings)
+            : undefined,
+        depreciation: depreciation,
+        covenants: covenants,
+        unitMix: basis.settings.unitMix?.rows.length ? UnitMixService.summarise(basis.settings.unitMix) : undefined,
         reconciliation: {
             totalCostGross: metrics.totalCostGross,
             gstInputCredits: metrics.gstInputCredits,
@@ -1,7 +1,8 @@
 
-import { LineItem, RevenueItem, CostCategory, SensitivityVariable, ScenarioStatus, SensitivityRow } from '../types';
+import { LineItem, RevenueItem, CostCategory, SensitivityVariable, ScenarioStatus, SensitivityRow, DatedRate } from '../types';
 import { Site, FeasibilitySettings, FeasibilityScenario } from '../types-v2';
 import { ReportService } from './reportModel';
+import { calculateSaleValue, resolveEscalationRate } from './financeEngine';
 
 export interface SensitivityCell {
   xVar: number; 
@@ -45,7 +46,7 @@ export const applyVariance = (
         if (c.category === CostCategory.CONSTRUCTION) {
           const newItem = { ...c, amount: c.amount * multiplier };
           if (varianceValue > 0) {
-             newItem.escalationRate = (newItem.escalationRate || 0) + 0.5;
+             newItem.escalationRate = resolveEscalationRate(c, settings) + 0.5;
           }
           return newItem;
         }
@@ -65,8 +66,12 @@ export const applyVariance = (
       break;
     }
     case 'interest': {
-      newSettings.capitalStack.senior.interestRate += varianceValue;
-      newSettings.capitalStack.mezzanine.interestRate += varianceValue;
+      // Shift the whole curve: base rate and every dated step on both tiers
+      (['senior', 'mezzanine'] as const).forEach(tier => {
+        const t = newSettings.capitalStack[tier];
+        t.interestRate += varianceValue;
+        t.variableRates = (t.variableRates || []).map((r: DatedRate) => ({ ...r, rate: r.rate + varianceValue }));
+      });
       break;
     }
     case 'land': {
@@ -225,7 +230,7 @@ export const SensitivityService = {
                 varianceLabel = step === 0 ? 'Base Case' : (step > 0 ? `+${step}%` : `${step}%`);
                 break;
             case 'revenue':
-                variableValue = variant.revenues.reduce((a,b) => a + (b.units * b.pricePerUnit), 0);
+                variableValue = variant.revenues.reduce((a,b) => a + calculateSaleValue(b), 0);
                 varianceLabel = step === 0 ? 'Base Case' : (step > 0 ? `+${step}%` : `${step}%`);
                 break;
             case 'duration':
@@ -67,7 +67,8 @@ export const SolverService = {
       const cashflow = FinanceEngine.calculateMonthlyCashflow(simScenario, simSite);
 
       // D. Calculate Metrics
-      const totalOut = cashflow.reduce((acc, curr) => acc + curr.developmentCosts + curr.interestSenior + curr.interestMezz, 0);
+      const totalOut = cashflow.reduce((acc, curr) => 
+        acc + curr.developmentCosts + curr.interestSenior + curr.interestMezz + curr.lineFeeSenior + curr.establishmentFeeSenior + curr.establishmentFeeMezz, 0);
       const totalIn = cashflow.reduce((acc, curr) => acc + curr.netRevenue, 0);
       const profit = totalIn - totalOut;
 
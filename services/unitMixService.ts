@@ -0,0 +1,89 @@
+
+import { RevenueItem, UnitMixRow, UnitMixSchedule, UnitMixSummary } from '../types';
+import { Site, FeasibilitySettings } from '../types-v2';
+
+const hasRows = (mix?: UnitMixSchedule): mix is UnitMixSchedule => !!mix && mix.rows.length > 0;
+
+export const UnitMixService = {
+  /**
+   * Sale price of one unit: the rate itself, or the rate per sqm over the internal area.
+   */
+  resolveUnitPrice: (row: UnitMixRow): number =>
+    row.pricingBasis === 'PER_SQM' ? row.rate * row.internalSqm : row.rate,
+
+  /**
+   * Product mix totals. NSA is the internal area of every unit; GFA grosses NSA up by the
+   * building efficiency.
+   */
+  summarise: (mix: UnitMixSchedule): UnitMixSummary => {
+    const lines = mix.rows.map(row => {
+      const unitPrice = UnitMixService.resolveUnitPrice(row);
+      return { ...row, unitPrice, totalNsa: row.internalSqm * row.count, totalRevenue: unitPrice * row.count };
+    });
+    const totalUnits = lines.reduce((acc, line) => acc + line.count, 0);
+    const nsa = lines.reduce((acc, line) => acc + line.totalNsa, 0);
+    const grossRevenue = lines.reduce((acc, line) => acc + line.totalRevenue, 0);
+    return {
+      lines,
+      totalUnits,
+      nsa,
+      gfa: mix.efficiencyPct > 0 ? nsa / (mix.efficiencyPct / 100) : 0,
+      externalSqm: lines.reduce((acc, line) => acc + line.externalSqm * line.count, 0),
+      carSpaces: lines.reduce((acc, line) => acc + line.carSpaces * line.count, 0),
+      grossRevenue,
+      averagePrice: totalUnits > 0 ? grossRevenue / totalUnits : 0,
+      averageRatePerSqm: nsa > 0 ? grossRevenue / nsa : 0
+    };
+  },
+
+  /**
+   * Unit count driving per-unit costs and ratios: the unit mix when one is scheduled.
+   */
+  resolveTotalUnits: (settings: FeasibilitySettings): number =>
+    hasRows(settings.unitMix) ? UnitMixService.summarise(settings.unitMix).totalUnits : settings.totalUnits,
+
+  /**
+   * GFA and NSA for benchmarking: derived from the unit mix when one is scheduled, otherwise
+   * the areas recorded on the site.
+   */
+  resolveAreas: (settings: FeasibilitySettings, site: Site): { gfa: number; nsa: number } => {
+    if (!hasRows(settings.unitMix)) return { gfa: site.identity.totalGFA || 0, nsa: site.identity.totalNSA || 0 };
+    const { gfa, nsa } = UnitMixService.summarise(settings.unitMix);
+    return { gfa, nsa };
+  },
+
+  /**
+   * Rebuilds the Sell revenue items generated from the mix, one per row. Quantity and price come
+   * from the row; sale terms already set on a generated item are kept. Items entered by hand are
+   * left untouched and items whose row was removed are dropped.
+   */
+  generateRevenues: (mix: UnitMixSchedule, revenues: RevenueItem[]): RevenueItem[] => {
+    const manual = revenues.filter(rev => !rev.unitMixId);
+    const generated = mix.rows.map(row => {
+      const existing = revenues.find(rev => rev.unitMixId === row.id);
+      const base: RevenueItem = existing || {
+        id: `mix-${row.id}`,
+        description: row.type,
+        strategy: 'Sell',
+        calcMode: 'QUANTITY_RATE',
+        units: 0,
+        pricePerUnit: 0,
+        offsetFromCompletion: 1,
+        settlementSpan: 6,
+        absorptionRate: 1,
+        commissionRate: 2.0,
+        isTaxable: true
+      };
+      return {
+        ...base,
+        unitMixId: row.id,
+        description: row.type,
+        strategy: 'Sell' as const,
+        calcMode: 'QUANTITY_RATE' as const,
+        units: row.count,
+        pricePerUnit: UnitMixService.resolveUnitPrice(row)
+      };
+    });
+    return [...manual, ...generated];
+  }
+};
@@ -2,13 +2,17 @@
 import { describe, it, expect } from 'vitest';
 import { FinanceEngine } from '../services/financeEngine';
 import { ReportService } from '../services/reportModel';
+import { JvService } from '../services/jvService';
+import { CovenantService } from '../services/covenantService';
+import { UnitMixService } from '../services/unitMixService';
 import { 
   ScenarioStatus, CostCategory, 
   InputType, DistributionMethod, GstTreatment, DebtLimitMethod, InterestRateMode, FeeBase, EquityMode,
-  MilestoneLink 
+  MilestoneLink, MonthlyFlow, FundingSource, RevenueItem, UnitMixSchedule, LineItem
 } from '../types';
 import { Site, FeasibilityScenario, FeasibilitySettings } from '../types-v2';
 import { DEFAULT_TAX_SCALES } from '../constants';
+import { migrateSiteEscalation } from '../migrate-to-v2';
 import Decimal from 'decimal.js';
 
 // --- MOCK DATA FACTORIES ---
@@ -194,4 +198,1550 @@ describe('FinanceEngine Pure Modules', () => {
       expect(rec.totalCostGross - rec.gstInputCredits).toBeCloseTo(rec.totalCostNet, 0);
     });
   });
+
+  describe('5. Cost Escalation', () => {
+    it('should compound line escalation monthly from model start and reconcile across outputs', () => {
+      const scenario = createMockScenario();
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSULTANTS, description: 'Design',
+        inputType: InputType.FIXED, amount: 120000, startDate: 12, span: 1,
+        method: DistributionMethod.UPFRONT, escalationRate: 5, gstTreatment: GstTreatment.GST_FREE
+      });
+
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      const row = report.cashflow.itemised.categories.find(c => c.name === CostCategory.CONSULTANTS)?.rows[0];
+
+      // 12 months of monthly compounding at 5% p.a. = exactly 5%
+      expect(row?.values[12]).toBeCloseTo(126000, 2);
+      expect(report.itemSummaries[0].netAmount).toBeCloseTo(126000, 2);
+      expect(report.cashflow.monthly[12].costBreakdown[CostCategory.CONSULTANTS]).toBeCloseTo(126000, 2);
+    });
+
+    it('should fall back to the global default rate when the line rate is unset', () => {
+      const scenario = createMockScenario();
+      const item = {
+        id: 'c1', code: 'C1', category: CostCategory.CONSULTANTS, description: 'Design',
+        inputType: InputType.FIXED, amount: 100000, startDate: 6, span: 1,
+        method: DistributionMethod.UPFRONT, gstTreatment: GstTreatment.GST_FREE
+      };
+
+      expect(FinanceEngine.resolveEscalationRate(item, scenario.settings)).toBe(3.0);
+      const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, [item], mockSite);
+      const flows = FinanceEngine.calculateLineItemFlows(item, scenario.settings, mockSite, 0, 0, timeline);
+      expect(flows[6]).toBeCloseTo(100000 * Math.pow(1.03, 0.5), 2);
+    });
+
+    it('should hold a cost flat when the line rate is an explicit zero', () => {
+      const scenario = createMockScenario();
+      const item = {
+        id: 'c1', code: 'C1', category: CostCategory.CONSULTANTS, description: 'Design',
+        inputType: InputType.FIXED, amount: 100000, startDate: 6, span: 1,
+        method: DistributionMethod.UPFRONT, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      };
+
+      expect(FinanceEngine.resolveEscalationRate(item, scenario.settings)).toBe(0);
+      const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, [item], mockSite);
+      const flows = FinanceEngine.calculateLineItemFlows(item, scenario.settings, mockSite, 0, 0, timeline);
+      expect(flows[6]).toBeCloseTo(100000, 2);
+    });
+  });
+
+  describe('6. Variable Interest Rates', () => {
+    it('should step the applied rate from dated rate changes', () => {
+      const scenario = createMockScenario();
+      scenario.settings.capitalStack.senior.rateMode = InterestRateMode.VARIABLE;
+      scenario.settings.capitalStack.senior.variableRates = [
+        { id: 'r2', month: 6, rate: 7.5 },
+        { id: 'r1', month: 3, rate: 6.0 }
+      ];
+
+      const cashflow = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(cashflow[0].rateSenior).toBe(5.0);
+      expect(cashflow[3].rateSenior).toBe(6.0);
+      expect(cashflow[5].rateSenior).toBe(6.0);
+      expect(cashflow[6].rateSenior).toBe(7.5);
+      expect(cashflow[12].rateSenior).toBe(7.5);
+    });
+
+    it('should ignore rate steps for single-rate tiers', () => {
+      const tier = createMockSettings().capitalStack.senior;
+      tier.variableRates = [{ id: 'r1', month: 0, rate: 9 }];
+      expect(FinanceEngine.resolveInterestRate(tier, 4)).toBe(5.0);
+    });
+  });
+
+  describe('7. Facility Fees', () => {
+    it('should charge establishment fees at activation and include them in finance costs', () => {
+      const scenario = createMockScenario();
+      scenario.settings.capitalStack.senior.establishmentFeeBase = FeeBase.PERCENT;
+      scenario.settings.capitalStack.senior.establishmentFee = 1.0;
+      scenario.settings.capitalStack.senior.activationMonth = 2;
+
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      const monthly = report.cashflow.monthly;
+
+      // 1% of the $2m fixed limit
+      expect(monthly[2].establishmentFeeSenior).toBeCloseTo(20000, 2);
+      expect(monthly.reduce((a, f) => a + f.establishmentFeeSenior, 0)).toBeCloseTo(20000, 2);
+      expect(monthly[2].netCashflow).toBeLessThanOrEqual(-20000);
+
+      const financeCat = report.cashflow.itemised.categories.find(c => c.name === CostCategory.FINANCE);
+      const feeRow = financeCat?.rows.find(r => r.label === 'Senior Establishment Fee');
+      expect(feeRow?.total).toBeCloseTo(20000, 2);
+
+      const interest = monthly.reduce((a, f) => a + f.interestSenior + f.interestMezz + f.lineFeeSenior, 0);
+      expect(report.metrics.totalFinanceCost).toBeCloseTo(interest + 20000, 2);
+    });
+  });
+
+  describe('8. Milestone Timing', () => {
+    const consultant = (link: MilestoneLink, offset: number) => ({
+      id: 'k1', code: 'K1', category: CostCategory.CONSULTANTS, description: 'Linked Fee',
+      inputType: InputType.FIXED, amount: 10000, startDate: offset, span: 1,
+      method: DistributionMethod.UPFRONT, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE,
+      linkToMilestone: link
+    });
+
+    it('should resolve milestones from settlement, delay and construction span', () => {
+      const scenario = createMockScenario();
+      scenario.settings.constructionDelay = 2;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 100000, startDate: 0, span: 6,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+
+      const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, scenario.costs, mockSite);
+      expect(timeline).toEqual({ settlementMonth: 1, constructionStartMonth: 3, constructionSpan: 6, constructionEndMonth: 9 });
+
+      expect(FinanceEngine.resolveLineItemStart(consultant(MilestoneLink.ACQUISITION, 1), timeline)).toBe(2);
+      expect(FinanceEngine.resolveLineItemStart(consultant(MilestoneLink.CONSTRUCTION_START, -1), timeline)).toBe(2);
+      expect(FinanceEngine.resolveLineItemStart(consultant(MilestoneLink.CONSTRUCTION_END, 0), timeline)).toBe(9);
+    });
+
+    it('should bring a milestone offset before the model start forward to month 0', () => {
+      const scenario = createMockScenario();
+      const item = { ...consultant(MilestoneLink.ACQUISITION, -3), span: 4, method: DistributionMethod.LINEAR };
+      const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, scenario.costs, mockSite);
+      expect(FinanceEngine.resolveLineItemStart(item, timeline)).toBe(0);
+
+      const flows = FinanceEngine.calculateLineItemFlows(item, { ...scenario.settings, defaultEscalationRate: 0 }, mockSite, 0, 0, timeline);
+      expect(flows.reduce((a, b) => a + b, 0)).toBeCloseTo(10000);
+      expect(flows[0]).toBeCloseTo(2500);
+    });
+
+    it('should re-time linked costs when the build is extended', () => {
+      const scenario = createMockScenario();
+      scenario.settings.defaultEscalationRate = 0;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 100000, startDate: 0, span: 4,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.costs.push(consultant(MilestoneLink.CONSTRUCTION_END, 1));
+
+      const before = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(before[6].costBreakdown[CostCategory.CONSULTANTS]).toBeCloseTo(10000);
+
+      scenario.costs[0] = { ...scenario.costs[0], span: 6 };
+      const after = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(after[6].costBreakdown[CostCategory.CONSULTANTS]).toBeUndefined();
+      expect(after[8].costBreakdown[CostCategory.CONSULTANTS]).toBeCloseTo(10000);
+    });
+
+    it('should settle revenue from construction completion and move it with the build', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 14;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 100000, startDate: 0, span: 4,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 2, pricePerUnit: 500000, offsetFromCompletion: 1, settlementSpan: 1, commissionRate: 0, isTaxable: false
+      });
+
+      const timeline = FinanceEngine.resolveProjectTimeline(scenario.settings, scenario.costs, mockSite);
+      expect(FinanceEngine.resolveRevenueStart(scenario.revenues[0], timeline)).toBe(6);
+      const before = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(before.findIndex(f => f.grossRevenue > 0)).toBe(6);
+
+      scenario.costs[0] = { ...scenario.costs[0], span: 6 };
+      const after = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(after.findIndex(f => f.grossRevenue > 0)).toBe(8);
+    });
+  });
+
+  describe('9. Distribution Methods', () => {
+    const item = (method: DistributionMethod, span: number, extra: object = {}) => ({
+      id: 'd1', code: 'D1', category: CostCategory.CONSTRUCTION, description: 'Build',
+      inputType: InputType.FIXED, amount: 1000000, startDate: 0, span,
+      method, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE, ...extra
+    });
+    const spread = (i: ReturnType<typeof item>, total = 1000000) =>
+      Array.from({ length: i.span }, (_, m) => FinanceEngine.distributeValue(total, m, i));
+    const sum = (flows: Decimal[]) => flows.reduce((acc, v) => acc.plus(v), new Decimal(0));
+
+    it('should shape a bell curve symmetrically around mid-span', () => {
+      const flows = spread(item(DistributionMethod.BELL_CURVE, 10)).map(v => v.toNumber());
+      expect(flows[4]).toBeCloseTo(flows[5], 0);
+      expect(flows[0]).toBeCloseTo(flows[9], 0);
+      expect(flows[4]).toBeGreaterThan(flows[2]);
+      expect(flows[2]).toBeGreaterThan(flows[0]);
+    });
+
+    it('should pay milestone percentages in their months', () => {
+      const flows = spread(item(DistributionMethod.MILESTONE, 12, { milestones: { 0: 10, 4: 40, 8: 40, 11: 10 } }));
+      expect(flows[0].toNumber()).toBe(100000);
+      expect(flows[4].toNumber()).toBe(400000);
+      expect(flows[8].toNumber()).toBe(400000);
+      expect(flows[11].toNumber()).toBe(100000);
+      expect(flows[1].toNumber()).toBe(0);
+    });
+
+    it('should steepen the S-curve with a higher steepness', () => {
+      const gentle = spread(item(DistributionMethod.S_CURVE, 12, { sCurveSteepness: 4 }));
+      const steep = spread(item(DistributionMethod.S_CURVE, 12, { sCurveSteepness: 20 }));
+      expect(steep[6].toNumber()).toBeGreaterThan(gentle[6].toNumber());
+      expect(steep[0].toNumber()).toBeLessThan(gentle[0].toNumber());
+    });
+
+    it('should reconcile every method exactly to the item total', () => {
+      const total = 1234567.89;
+      [
+        item(DistributionMethod.LINEAR, 7),
+        item(DistributionMethod.S_CURVE, 13, { sCurveSteepness: 9 }),
+        item(DistributionMethod.BELL_CURVE, 11),
+        item(DistributionMethod.MILESTONE, 9, { milestones: { 0: 15, 3: 35, 20: 33 } }),
+        item(DistributionMethod.MILESTONE, 5)
+      ].forEach(i => expect(sum(spread(i, total)).toNumber()).toBe(total));
+    });
+  });
+
+  describe('10. GST Treatment', () => {
+    const sale = (isTaxable: boolean) => ({
+      id: 'r1', description: 'Apartments', strategy: 'Sell' as const, calcMode: 'QUANTITY_RATE' as const,
+      units: 10, pricePerUnit: 330000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable
+    });
+    const totalGstOnSales = (scenario: FeasibilityScenario) =>
+      FinanceEngine.calculateMonthlyCashflow(scenario, mockSite).reduce((acc, f) => acc + f.gstOnSales, 0);
+
+    it('should apply the configured rate to full-GST sales', () => {
+      const scenario = createMockScenario();
+      scenario.revenues.push(sale(true));
+      expect(totalGstOnSales(scenario)).toBeCloseTo(300000);
+
+      scenario.settings.gstRate = 15;
+      expect(totalGstOnSales(scenario)).toBeCloseTo(3300000 * 15 / 115);
+    });
+
+    it('should tax only the margin over land cost under the margin scheme', () => {
+      const scenario = createMockScenario();
+      scenario.settings.useMarginScheme = true;
+      scenario.revenues.push(sale(true));
+      // Margin = 3.3M sales - 1M land
+      expect(totalGstOnSales(scenario)).toBeCloseTo(2300000 / 11);
+
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      expect(report.basis.gstMethod).toBe('MARGIN_SCHEME');
+    });
+
+    it('should skip GST on non-taxable sales and non-taxable costs', () => {
+      const scenario = createMockScenario();
+      scenario.settings.defaultEscalationRate = 0;
+      scenario.revenues.push(sale(false));
+      [GstTreatment.GST_FREE, GstTreatment.INPUT_TAXED, GstTreatment.MARGIN_SCHEME, GstTreatment.TAXABLE].forEach((gstTreatment, i) => {
+        scenario.costs.push({
+          id: `g${i}`, code: `G${i}`, category: CostCategory.CONSULTANTS, description: gstTreatment,
+          inputType: InputType.FIXED, amount: 10000, startDate: 0, span: 1,
+          method: DistributionMethod.UPFRONT, escalationRate: 0, gstTreatment
+        });
+      });
+
+      expect(totalGstOnSales(scenario)).toBe(0);
+      const summaries = FinanceEngine.calculateLineItemSummaries(scenario, mockSite);
+      expect(summaries.map(s => s.gstAmount)).toEqual([0, 0, 0, 1000]);
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(flows[0].gstOnCosts).toBeCloseTo(1000);
+    });
+  });
+
+  describe('11. GST Audit & BAS', () => {
+    const createGstScenario = () => {
+      const scenario = createMockScenario();
+      scenario.settings.defaultEscalationRate = 0;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSULTANTS, description: 'Design',
+        inputType: InputType.FIXED, amount: 120000, startDate: 0, span: 12,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      return scenario;
+    };
+
+    it('should produce an audit entry for every cost and revenue line', () => {
+      const scenario = createGstScenario();
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 2, pricePerUnit: 550000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true
+      });
+
+      const audit = FinanceEngine.generateGstAuditTrail(scenario, mockSite);
+      expect(audit).toHaveLength(2);
+      expect(audit[0]).toMatchObject({ id: 'r1', category: 'Income', amountWithGst: 1100000, gstComponent: 100000, preGstAmount: 1000000 });
+      expect(audit[1]).toMatchObject({ id: 'c1', category: CostCategory.CONSULTANTS, preGstAmount: 120000 });
+      expect(audit[1].gstComponent).toBeCloseTo(12000);
+    });
+
+    it('should group GST into calendar quarters with a partial final quarter', () => {
+      const scenario = createGstScenario();
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const bas = FinanceEngine.generateBasSchedule(flows, scenario.settings);
+
+      // Jan-Mar, Apr-Jun, Jul-Sep, Oct-Dec, then Jan of the following year
+      expect(bas.map(q => [q.startMonth, q.endMonth])).toEqual([[0, 2], [3, 5], [6, 8], [9, 11], [12, 12]]);
+      expect(bas[0].inputTaxCredits).toBeCloseTo(3000);
+      expect(bas[0].netGst).toBeCloseTo(-3000);
+      expect(bas[0].settlementMonth).toBe(3);
+    });
+
+    it('should only settle BAS in the funding cashflow when a lag is configured', () => {
+      const scenario = createGstScenario();
+      const unmodelled = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(unmodelled.every(f => f.gstSettlement === 0)).toBe(true);
+
+      scenario.settings.gstSettlementLag = 1;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(flows[3].gstSettlement).toBeCloseTo(-3000);
+      expect(flows[3].netCashflow - unmodelled[3].netCashflow).toBeCloseTo(3000, 0);
+    });
+  });
+
+  describe('12. Discounted Returns', () => {
+    it('should discount monthly flows at the effective monthly rate', () => {
+      const flows = [-1000, ...Array(11).fill(0), 1100];
+      // 12 months at 10% p.a. discounts the final flow by exactly one year
+      expect(FinanceEngine.calculateNPV(flows, 10)).toBeCloseTo(0, 6);
+      expect(FinanceEngine.calculateNPV(flows, 0)).toBeCloseTo(100);
+    });
+
+    it('should price dated flows on actual days', () => {
+      const dates = [new Date('2023-01-01'), new Date('2024-01-01')];
+      expect(FinanceEngine.calculateXNPV([-1000, 1100], dates, 10)).toBeCloseTo(0, 6);
+      expect(FinanceEngine.calculateXIRR([-1000, 1100], dates)).toBeCloseTo(0.1, 6);
+      expect(FinanceEngine.calculateXIRR([-1000, 900], dates)).toBeNull();
+    });
+
+    it('should report NPV and XIRR on project metrics at the scenario discount rate', () => {
+      const scenario = createMockScenario();
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 1000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 250000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false
+      });
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const metrics = FinanceEngine.calculateProjectMetrics(flows, scenario.settings, mockSite);
+      const equityFlows = flows.map(f => f.repayEquity - f.drawDownEquity);
+
+      expect(metrics.equityNPV).toBeCloseTo(FinanceEngine.calculateNPV(equityFlows, 10));
+      expect(metrics.equityXIRR).not.toBeNull();
+      expect(metrics.equityXIRR!).toBeCloseTo(metrics.equityIRR!, 0);
+
+      scenario.settings.discountRate = 20;
+      const higher = FinanceEngine.calculateProjectMetrics(flows, scenario.settings, mockSite);
+      expect(higher.equityNPV).toBeLessThan(metrics.equityNPV);
+    });
+  });
+
+  describe('13. IRR Solver Diagnostics', () => {
+    it('should explain why an IRR is unavailable', () => {
+      expect(FinanceEngine.solveIRR([100, 100, 100])).toMatchObject({ rate: null, status: 'NO_INVESTMENT' });
+      const loss = FinanceEngine.solveIRR([-100, 50, 40]);
+      expect(loss).toMatchObject({ rate: null, status: 'NOT_RECOVERED' });
+      expect(loss.reason).toBeDefined();
+    });
+
+    it('should fall back to bracketing when Newton diverges', () => {
+      // A huge early payback pushes Newton from 10% out of range; the root is ~900% per period
+      const flows = [-100, 1000, 0.01];
+      const result = FinanceEngine.solveIRR(flows);
+      expect(result.status).toBe('OK');
+      expect(result.rate).not.toBeNull();
+      const npv = flows.reduce((acc, f, t) => acc + f / Math.pow(1 + result.rate!, t), 0);
+      expect(npv).toBeCloseTo(0, 4);
+    });
+
+    it('should flag multiple roots on alternating cashflows', () => {
+      // Roots at 10% and 20%: -100 + 230/(1+r) - 132/(1+r)^2 = 0
+      const result = FinanceEngine.solveIRR([-100, 230, -132]);
+      expect(result.signChanges).toBe(2);
+      expect(result.status).toBe('MULTIPLE_ROOTS');
+      expect(result.roots).toHaveLength(2);
+      expect(result.roots[0]).toBeCloseTo(0.1, 6);
+      expect(result.roots[1]).toBeCloseTo(0.2, 6);
+      expect(result.rate).toBeCloseTo(0.1, 6);
+    });
+
+    it('should solve a profitable profile with a mid-project refinance distribution', () => {
+      // Equity in, cash-out refinance returns part early, top-up, then sale proceeds
+      const flows = [-500, -300, 0, 400, -200, 0, 0, 0, 0, 1200];
+      const result = FinanceEngine.solveIRR(flows);
+      expect(result.rate).not.toBeNull();
+      expect(FinanceEngine.calculateIRR(flows)).toBe(result.rate);
+      const npv = flows.reduce((acc, f, t) => acc + f / Math.pow(1 + result.rate!, t), 0);
+      expect(npv).toBeCloseTo(0, 4);
+    });
+  });
+
+  describe('14. Joint Venture Waterfall', () => {
+    // 1,000 of equity in at month 0, 1,500 distributed at month 12
+    const equityFlows = Array.from({ length: 13 }, (_, m) => ({
+      drawDownEquity: m === 0 ? 1000 : 0,
+      repayEquity: m === 12 ? 1500 : 0
+    }) as MonthlyFlow);
+    const jvSettings = (jv: object) => {
+      const settings = createMockSettings();
+      settings.capitalStack.jv = { enabled: true, partnerName: 'Capital Partner', equitySplitPct: 50, profitSharePct: 30, ...jv };
+      return settings;
+    };
+
+    it('should split contributions and return capital before profit', () => {
+      const result = JvService.calculateWaterfall(equityFlows, jvSettings({}));
+      expect(result.partner.totalContributed).toBe(500);
+      expect(result.developer.totalContributed).toBe(500);
+      expect(result.partner.totalDistributed).toBeCloseTo(650); // 500 capital + 30% of 500 profit
+      expect(result.developer.totalDistributed).toBeCloseTo(850);
+      expect(result.partner.profitSharePct).toBeCloseTo(30);
+      expect(result.partner.equityMultiple).toBeCloseTo(1.3);
+    });
+
+    it('should pay the preferred return pro rata ahead of the profit share', () => {
+      const result = JvService.calculateWaterfall(equityFlows, jvSettings({ preferredReturnPct: 10 }));
+      const pref = result.tiers.find(t => t.label.startsWith('Preferred'))!;
+      expect(pref.toPartner).toBeCloseTo(50);
+      expect(pref.toDeveloper).toBeCloseTo(50);
+      // 400 left at the 30% profit share
+      expect(result.partner.totalDistributed).toBeCloseTo(500 + 50 + 120);
+      expect(result.partner.irr).toBeCloseTo(34, 6);
+    });
+
+    it('should switch to the promote split once the partner IRR hurdle is met', () => {
+      const settings = jvSettings({ preferredReturnPct: 10, promoteTiers: [{ id: 't1', hurdleIrrPct: 15, partnerSharePct: 20 }] });
+      const result = JvService.calculateWaterfall(equityFlows, settings);
+      const promote = result.tiers[result.tiers.length - 1];
+
+      // Profit share closes the 15% hurdle (partner needs 25 more), the rest splits 20/80
+      expect(result.tiers.find(t => t.label === 'Profit Share')!.toPartner).toBeCloseTo(25);
+      expect(promote.distributed).toBeCloseTo(400 - 25 / 0.3);
+      expect(promote.toPartner).toBeCloseTo((400 - 25 / 0.3) * 0.2);
+      expect(result.partner.totalDistributed + result.developer.totalDistributed).toBeCloseTo(1500);
+    });
+
+    it('should only attach the waterfall to the report when the JV is enabled', () => {
+      const scenario = createMockScenario();
+      expect(ReportService.runFeasibility(scenario, mockSite).jv).toBeUndefined();
+      scenario.settings.capitalStack.jv.enabled = true;
+      expect(ReportService.runFeasibility(scenario, mockSite).jv).toBeDefined();
+    });
+  });
+
+  describe('15. Build-to-Rent Operating Cashflow', () => {
+    // Completion at month 1 (settlement, no construction): 10 units at $600/wk = $26,000/month
+    const holdItem = (overrides: object = {}) => ({
+      id: 'h1', description: 'BTR Apartments', strategy: 'Hold' as const, calcMode: 'QUANTITY_RATE' as const,
+      units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 2, isTaxable: true,
+      weeklyRent: 600, opexRate: 25, vacancyFactorPct: 5, leaseUpMonths: 4, ...overrides
+    });
+    const holdScenario = (overrides: object = {}) => {
+      const scenario = createMockScenario('HOLD');
+      scenario.settings.durationMonths = 24;
+      scenario.revenues.push(holdItem(overrides));
+      return scenario;
+    };
+
+    it('should ramp rent over lease-up and net off vacancy and opex', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(holdScenario(), mockSite);
+      expect(flows[0].grossRevenue).toBe(0);
+      expect(flows[1].grossRevenue).toBeCloseTo(26000 * 0.25 * 0.95);
+      expect(flows[4].grossRevenue).toBeCloseTo(26000 * 0.95);
+      expect(flows[4].operatingExpenses).toBeCloseTo(26000 * 0.95 * 0.25);
+      expect(flows[4].netOperatingIncome).toBeCloseTo(26000 * 0.95 * 0.75);
+      expect(flows[4].netRevenue).toBeCloseTo(flows[4].netOperatingIncome);
+    });
+
+    it('should not treat Hold items as sales', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(holdScenario({ leaseUpMonths: 0 }), mockSite);
+      expect(flows.every(f => f.gstOnSales === 0)).toBe(true);
+      expect(flows[1].grossRevenue).toBeCloseTo(26000 * 0.95);
+    });
+
+    it('should step rent up by the rental growth rate each lease year', () => {
+      const scenario = holdScenario({ leaseUpMonths: 0, vacancyFactorPct: 0 });
+      scenario.settings.growth.rentalGrowth = 4;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(flows[12].grossRevenue).toBeCloseTo(26000);
+      expect(flows[13].grossRevenue).toBeCloseTo(26000 * 1.04);
+    });
+
+    it('should report NOI rows in the itemised cashflow that reconcile to the monthly flows', () => {
+      const report = ReportService.runFeasibility(holdScenario(), mockSite);
+      const noiCat = report.cashflow.itemised.categories.find(c => c.name === 'Net Operating Income')!;
+      expect(noiCat.rows.map(r => r.label)).toEqual(['BTR Apartments - Gross Rent', 'BTR Apartments - Operating Expenses', 'Net Operating Income']);
+      const totalNoi = report.cashflow.monthly.reduce((acc, f) => acc + f.netOperatingIncome, 0);
+      expect(noiCat.rows[2].total).toBeCloseTo(totalNoi);
+      expect(report.metrics.netRealisation).toBeCloseTo(totalNoi);
+    });
+  });
+
+  describe('16. Hold Refinance', () => {
+    // 1.2M build over months 1-6, completion at month 7, takeout at month 10
+    const refiScenario = (refinanceLvr = 60) => {
+      const scenario = createMockScenario('HOLD');
+      scenario.settings.durationMonths = 24;
+      scenario.settings.holdStrategy = {
+        refinanceLvr, refinanceMonth: 10, investmentRate: 6, holdPeriodYears: 10,
+        annualCapitalGrowth: 0, terminalCapRate: 5, depreciationSplit: { capitalWorksPct: 85, plantPct: 15 }
+      };
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 1200000, startDate: 0, span: 6,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'h1', description: 'BTR Apartments', strategy: 'Hold', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false,
+        weeklyRent: 600, opexRate: 25, vacancyFactorPct: 5, leaseUpMonths: 0, capRate: 5
+      });
+      return scenario;
+    };
+    // Stabilised NOI 10 x 600 x 52 x 95% x 75% = 222,300, capitalised at 5%
+    const assetValue = 222300 / 0.05;
+
+    it('should size the investment loan on capitalised NOI and clear construction debt', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(refiScenario(), mockSite);
+      const refi = flows[10];
+      const debtBefore = flows[9].balanceSenior + flows[9].balanceMezz;
+      expect(debtBefore).toBeGreaterThan(0);
+      expect(refi.drawDownInvestment).toBeCloseTo(assetValue * 0.6);
+      expect(refi.repaySenior).toBeCloseTo(debtBefore + refi.interestSenior);
+      expect(refi.balanceSenior).toBe(0);
+      expect(refi.balanceInvestment).toBeCloseTo(assetValue * 0.6);
+      // Refinance is a funding movement: surplus proceeds go to equity, not the project net flow
+      expect(refi.repayEquity).toBeCloseTo(refi.netCashflow + refi.drawDownInvestment - refi.repaySenior);
+    });
+
+    it('should service the investment loan from rent after the refinance', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(refiScenario(), mockSite);
+      expect(flows[10].investmentInterest).toBe(0);
+      expect(flows[11].investmentInterest).toBeCloseTo(assetValue * 0.6 * 0.06 / 12);
+      expect(flows[11].netCashflow).toBeCloseTo(flows[11].netOperatingIncome - flows[11].investmentInterest);
+      expect(flows.slice(11).every(f => f.drawDownSenior === 0 && f.lineFeeSenior === 0)).toBe(true);
+    });
+
+    it('should fund a shortfall on the takeout with equity', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(refiScenario(10), mockSite);
+      const refi = flows[10];
+      expect(refi.balanceSenior).toBe(0);
+      expect(refi.drawDownEquity).toBeCloseTo(refi.repaySenior - refi.drawDownInvestment - refi.netCashflow);
+    });
+
+    it('should distribute the refinance surplus to equity under a partial debt sweep', () => {
+      const fullSweep = FinanceEngine.calculateMonthlyCashflow(refiScenario(), mockSite);
+      const scenario = refiScenario();
+      scenario.settings.capitalStack.waterfall = {
+        ...FinanceEngine.resolveFundingWaterfall(scenario.settings.capitalStack), debtSweepPct: 50
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      // Rent before the takeout is only half swept, so construction interest differs slightly until then
+      expect(flows[10].repayEquity).toBeCloseTo(fullSweep[10].repayEquity, -3);
+      expect(flows.slice(10).every(f => f.balanceCash === 0)).toBe(true);
+      expect(flows[11].repayEquity).toBeCloseTo(fullSweep[11].repayEquity);
+    });
+
+    it('should hold a takeout set before completion until construction completes', () => {
+      const scenario = refiScenario();
+      scenario.settings.holdStrategy!.refinanceMonth = 3;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(flows.findIndex(f => f.drawDownInvestment > 0)).toBe(7);
+      expect(flows.slice(0, 7).every(f => f.balanceInvestment === 0)).toBe(true);
+      expect(flows[6].balanceSenior).toBeGreaterThan(0);
+    });
+  });
+
+  describe('17. Hold Period Returns', () => {
+    // Completion at month 1 (no construction), 2-year hold: exit at month 25
+    const holdScenario = () => {
+      const scenario = createMockScenario('HOLD');
+      scenario.settings.holdStrategy = {
+        refinanceLvr: 0, refinanceMonth: 0, investmentRate: 0, holdPeriodYears: 2,
+        annualCapitalGrowth: 3, terminalCapRate: 6, depreciationSplit: { capitalWorksPct: 85, plantPct: 15 }
+      };
+      scenario.revenues.push({
+        id: 'h1', description: 'BTR Apartments', strategy: 'Hold', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 2, isTaxable: false,
+        weeklyRent: 600, opexRate: 25, vacancyFactorPct: 0, leaseUpMonths: 0, capRate: 5
+      });
+      return scenario;
+    };
+    // Stabilised NOI 10 x 600 x 52 x 75% = 234,000
+    const noi = 234000;
+
+    it('should extend the horizon to the end of the hold and sell at the terminal cap rate', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(holdScenario(), mockSite);
+      expect(flows.length).toBe(26);
+      expect(flows[25].terminalSale).toBeCloseTo(noi / 0.06);
+      expect(flows[25].netRevenue).toBeCloseTo(noi / 0.06 * 0.98 + noi / 12);
+      expect(flows.slice(0, 25).every(f => f.terminalSale === 0)).toBe(true);
+    });
+
+    it('should carry the held asset at capitalised value grown at the capital growth rate', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(holdScenario(), mockSite);
+      expect(flows[1].assetValue).toBeCloseTo(noi / 0.05);
+      expect(flows[13].assetValue).toBeCloseTo(noi / 0.05 * 1.03);
+    });
+
+    it('should report levered and unlevered hold returns', () => {
+      const scenario = holdScenario();
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const metrics = FinanceEngine.calculateProjectMetrics(flows, scenario.settings, mockSite);
+      const hold = metrics.hold!;
+      expect(hold.exitMonth).toBe(25);
+      expect(hold.terminalValue).toBeCloseTo(noi / 0.06);
+      expect(hold.leveredIRR).toBeCloseTo(metrics.equityIRR!, 6);
+      expect(hold.unleveredIRR).not.toBeNull();
+      // 25 months of rent on peak equity
+      expect(hold.cashOnCashYield).toBeCloseTo(noi / metrics.peakEquity * 100);
+      const equityIn = flows.reduce((acc, f) => acc + f.drawDownEquity, 0);
+      const equityOut = flows.reduce((acc, f) => acc + f.repayEquity, 0);
+      expect(hold.equityMultiple).toBeCloseTo(equityOut / equityIn);
+    });
+
+    it('should not report hold metrics for a sell scenario', () => {
+      const scenario = createMockScenario();
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(FinanceEngine.calculateProjectMetrics(flows, scenario.settings, mockSite).hold).toBeUndefined();
+    });
+  });
+
+  describe('18. Tax Depreciation', () => {
+    // 1.2M build over months 1-6, completion at month 7; 85% Div 43, 15% Div 40
+    const depreciationScenario = (holdPeriodYears = 3) => {
+      const scenario = createMockScenario('HOLD');
+      scenario.settings.holdStrategy = {
+        refinanceLvr: 0, refinanceMonth: 0, investmentRate: 0, holdPeriodYears,
+        annualCapitalGrowth: 0, terminalCapRate: 5, depreciationSplit: { capitalWorksPct: 85, plantPct: 15 }
+      };
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 1200000, startDate: 0, span: 6,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'h1', description: 'BTR Apartments', strategy: 'Hold', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false,
+        weeklyRent: 600, opexRate: 25, vacancyFactorPct: 0, leaseUpMonths: 0, capRate: 5
+      });
+      return scenario;
+    };
+
+    it('should claim capital works and diminishing-value plant from completion', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(depreciationScenario(), mockSite);
+      expect(flows[6].depreciation).toBe(0);
+      expect(flows[7].depreciation).toBeCloseTo(1020000 * 0.025 / 12 + 180000 * 0.2 / 12);
+      // Year 2 plant is charged on the written-down value
+      expect(flows[19].depreciation).toBeCloseTo(1020000 * 0.025 / 12 + 144000 * 0.2 / 12);
+    });
+
+    it('should build an annual schedule that stops at the terminal sale', () => {
+      const report = ReportService.runFeasibility(depreciationScenario(), mockSite);
+      const schedule = report.depreciation;
+      // Exit at month 43: three full income years plus the sale month
+      expect(schedule.length).toBe(4);
+      expect(schedule[0].capitalWorks).toBeCloseTo(25500);
+      expect(schedule[0].plant).toBeCloseTo(36000);
+      expect(schedule[1].plant).toBeCloseTo(28800);
+      expect(schedule[1].closingPlant).toBeCloseTo(180000 - 36000 - 28800);
+      expect(schedule[3].capitalWorks).toBeCloseTo(25500 / 12);
+      const total = report.cashflow.monthly.reduce((acc, f) => acc + f.depreciation, 0);
+      expect(schedule.reduce((acc, y) => acc + y.total, 0)).toBeCloseTo(total);
+    });
+
+    it('should not depreciate sell scenarios', () => {
+      const scenario = depreciationScenario();
+      scenario.revenues[0].strategy = 'Sell';
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      expect(report.depreciation).toEqual([]);
+      expect(report.cashflow.monthly.every(f => f.depreciation === 0)).toBe(true);
+    });
+  });
+
+  describe('19. Linked Hold Scenarios', () => {
+    const build = {
+      id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+      inputType: InputType.FIXED, amount: 1200000, startDate: 0, span: 6,
+      method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+    };
+    const createLinkedPair = () => {
+      const sell = createMockScenario('SELL');
+      sell.id = 'sell-1';
+      sell.costs.push(build);
+      sell.settings.constructionDelay = 2;
+      sell.settings.capitalStack.senior.limit = 3000000;
+
+      const hold = createMockScenario('HOLD');
+      hold.id = 'hold-1';
+      hold.linkedSellScenarioId = sell.id;
+      hold.settings.holdStrategy = {
+        refinanceLvr: 0, refinanceMonth: 0, investmentRate: 0, holdPeriodYears: 1,
+        annualCapitalGrowth: 0, terminalCapRate: 5, depreciationSplit: { capitalWorksPct: 85, plantPct: 15 }
+      };
+      hold.revenues.push({
+        id: 'h1', description: 'BTR Apartments', strategy: 'Hold', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false,
+        weeklyRent: 600, opexRate: 25, vacancyFactorPct: 0, leaseUpMonths: 0, capRate: 5
+      });
+      return { sell, hold };
+    };
+
+    it('should inherit costs, timing and the capital stack from the linked Sell scenario', () => {
+      const { sell, hold } = createLinkedPair();
+      const resolved = FinanceEngine.resolveLinkedScenario(hold, sell);
+      expect(resolved.costs).toBe(sell.costs);
+      expect(resolved.settings.constructionDelay).toBe(2);
+      expect(resolved.settings.capitalStack.senior.limit).toBe(3000000);
+      expect(resolved.settings.holdStrategy).toBe(hold.settings.holdStrategy);
+
+      // Completion at month 1 + 2 + 6 = 9; rent starts there
+      const flows = FinanceEngine.calculateMonthlyCashflow(hold, mockSite, sell);
+      expect(flows[8].grossRevenue).toBe(0);
+      expect(flows[9].netOperatingIncome).toBeGreaterThan(0);
+      expect(flows.reduce((acc, f) => acc + (f.costBreakdown[CostCategory.CONSTRUCTION] || 0), 0)).toBeCloseTo(1200000);
+    });
+
+    it('should ignore a scenario that is not the linked one', () => {
+      const { sell, hold } = createLinkedPair();
+      hold.linkedSellScenarioId = 'another';
+      expect(FinanceEngine.resolveLinkedScenario(hold, sell)).toBe(hold);
+    });
+
+    it('should transfer the completed asset at cost or market', () => {
+      const { sell, hold } = createLinkedPair();
+      const market = FinanceEngine.calculateMonthlyCashflow(hold, mockSite, sell);
+      expect(market[9].assetValue).toBeCloseTo(234000 / 0.05);
+
+      hold.settings.holdStrategy!.completionValueBasis = 'COST';
+      const atCost = FinanceEngine.calculateMonthlyCashflow(hold, mockSite, sell);
+      const costToCompletion = atCost.slice(0, 10).reduce((acc, f) =>
+        acc + f.developmentCosts + f.interestSenior + f.interestMezz + f.lineFeeSenior + f.establishmentFeeSenior + f.establishmentFeeMezz, 0);
+      expect(atCost[9].assetValue).toBeCloseTo(costToCompletion);
+    });
+
+    it('should build the report on the linked development basis', () => {
+      const { sell, hold } = createLinkedPair();
+      const report = ReportService.runFeasibility(hold, mockSite, sell);
+      expect(report.itemSummaries.map(i => i.id)).toEqual(['c1']);
+      expect(report.depreciation[0].capitalWorks).toBeCloseTo(1200000 * 0.85 * 0.025);
+    });
+
+    it('should find the linked Sell scenario on the site and report the same metrics', () => {
+      const { sell, hold } = createLinkedPair();
+      const site = { ...mockSite, scenarios: [sell, hold] };
+      expect(FinanceEngine.findLinkedScenario(hold, site.scenarios)).toBe(sell);
+      expect(FinanceEngine.findLinkedScenario(sell, site.scenarios)).toBeUndefined();
+
+      const { cashflow, metrics } = FinanceEngine.calculateScenarioMetrics(hold, site);
+      const report = ReportService.runFeasibility(hold, site, sell);
+      expect(cashflow).toEqual(report.cashflow.monthly);
+      expect(metrics).toEqual(report.metrics);
+      expect(metrics.totalDevelopmentCost).not.toBeCloseTo(FinanceEngine.calculateScenarioMetrics(hold, { ...site, scenarios: [hold] }).metrics.totalDevelopmentCost);
+    });
+  });
+
+  describe('20. Debt Sizing', () => {
+    const tier = (limitMethod: DebtLimitMethod, limit?: number, lvrLimit?: number) => ({
+      ...createMockSettings().capitalStack.senior, limitMethod, limit, lvrLimit
+    });
+
+    it('should size LTC on cost and LVR on realisation value', () => {
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.LTC, 80), 5000000, 10000000).toNumber()).toBe(4000000);
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.LVR, 65), 5000000, 10000000).toNumber()).toBe(6500000);
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.FIXED, 2000000), 5000000, 10000000).toNumber()).toBe(2000000);
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.FIXED), 5000000, 10000000).toNumber()).toBe(5000000);
+    });
+
+    it('should take the lesser of LTC and LVR', () => {
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.LESSER_OF, 80, 65), 5000000, 10000000).toNumber()).toBe(4000000);
+      expect(FinanceEngine.resolveFacilityLimit(tier(DebtLimitMethod.LESSER_OF, 80, 65), 9000000, 10000000).toNumber()).toBe(6500000);
+    });
+
+    it('should value on gross realisation unless an as-if-complete valuation is given', () => {
+      const scenario = createMockScenario();
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 400000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true
+      });
+      expect(FinanceEngine.resolveGrossRealisationValue(scenario)).toBe(4000000);
+      scenario.settings.capitalStack.asIfCompleteValue = 4500000;
+      expect(FinanceEngine.resolveGrossRealisationValue(scenario)).toBe(4500000);
+    });
+
+    it('should cap senior drawings at the LVR limit in the cashflow', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.settings.capitalStack.senior.limitMethod = DebtLimitMethod.LVR;
+      scenario.settings.capitalStack.senior.limit = 50;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true
+      });
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const peakSenior = Math.max(...flows.map(f => f.balanceSenior));
+      expect(peakSenior).toBeCloseTo(2500000, 2);
+      expect(Math.max(...flows.map(f => f.balanceMezz))).toBeGreaterThan(0);
+    });
+  });
+
+  describe('21. Covenant Testing', () => {
+    const createDebtScenario = () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.settings.capitalStack.senior.limitMethod = DebtLimitMethod.LVR;
+      scenario.settings.capitalStack.senior.limit = 50;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true,
+        preSoldUnits: 4
+      });
+      return scenario;
+    };
+
+    it('should report no covenants when none are set', () => {
+      const scenario = createDebtScenario();
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const result = CovenantService.evaluate(flows, scenario, 5000000);
+      expect(result.hasCovenants).toBe(false);
+      expect(result.breaches).toHaveLength(0);
+      expect(result.months).toHaveLength(flows.length);
+    });
+
+    it('should measure LTC, LVR and pre-sale cover on the senior balance', () => {
+      const scenario = createDebtScenario();
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const result = CovenantService.evaluate(flows, scenario, 5000000);
+      const m = flows.findIndex(f => f.balanceSenior > 0);
+      const debt = flows[m].balanceSenior;
+      expect(result.months[m].senior.ltcPct).toBeCloseTo(debt / 5000000 * 100);
+      expect(result.months[m].senior.lvrPct).toBeCloseTo(debt / 5000000 * 100);
+      expect(result.months[m].senior.presaleCoverPct).toBeCloseTo(2000000 / debt * 100);
+      expect(result.months[m].senior.icr).toBeNull();
+    });
+
+    it('should flag months breaching maximum LVR and minimum pre-sale cover', () => {
+      const scenario = createDebtScenario();
+      scenario.settings.capitalStack.senior.covenants = { maxLvrPct: 45, minPresaleCoverPct: 100 };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const result = CovenantService.evaluate(flows, scenario, 5000000);
+
+      const lvrBreaches = result.breaches.filter(b => b.measure === 'LVR');
+      const coverBreaches = result.breaches.filter(b => b.measure === 'PRESALE_COVER');
+      expect(lvrBreaches.map(b => b.monthIndex)).toEqual(flows.filter(f => f.balanceSenior > 2250000).map(f => f.monthIndex));
+      expect(coverBreaches.map(b => b.monthIndex)).toEqual(flows.filter(f => f.balanceSenior > 2000000).map(f => f.monthIndex));
+      expect(lvrBreaches.length).toBeGreaterThan(0);
+      expect(lvrBreaches[0].threshold).toBe(45);
+      result.months.forEach(month => {
+        expect(month.breached).toBe(result.breaches.some(b => b.monthIndex === month.monthIndex));
+      });
+    });
+
+    it('should test mezzanine covenants on total debt while mezzanine is drawn', () => {
+      const scenario = createDebtScenario();
+      scenario.settings.capitalStack.mezzanine.covenants = { maxLtcPct: 60 };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const result = CovenantService.evaluate(flows, scenario, 5000000);
+      const expected = flows.filter(f => f.balanceMezz > 0 && (f.balanceSenior + f.balanceMezz) / 5000000 * 100 > 60);
+      expect(expected.length).toBeGreaterThan(0);
+      expect(result.breaches.every(b => b.tier === 'mezzanine')).toBe(true);
+      expect(result.breaches.map(b => b.monthIndex)).toEqual(expected.map(f => f.monthIndex));
+    });
+
+    it('should test ICR on NOI over interest for held assets', () => {
+      const scenario = createMockScenario();
+      scenario.settings.capitalStack.senior.covenants = { minIcr: 1.5 };
+      const flow = (monthIndex: number, noi: number, interest: number): MonthlyFlow => ({
+        ...FinanceEngine.calculateMonthlyCashflow(scenario, mockSite)[0],
+        monthIndex, label: `M${monthIndex}`, netOperatingIncome: noi,
+        balanceSenior: 0, balanceMezz: 0, balanceInvestment: 1000000, interestSenior: 0, interestMezz: 0, investmentInterest: interest
+      });
+      const result = CovenantService.evaluate([flow(0, 10000, 5000), flow(1, 6000, 5000), flow(2, 0, 5000)], scenario, 1000000);
+      expect(result.months[0].senior.icr).toBeCloseTo(2);
+      expect(result.months[2].senior.icr).toBeNull();
+      expect(result.breaches).toHaveLength(1);
+      expect(result.breaches[0]).toMatchObject({ monthIndex: 1, measure: 'ICR', threshold: 1.5 });
+      expect(result.breaches[0].actual).toBeCloseTo(1.2);
+    });
+
+    it('should include covenant results in the report model', () => {
+      const scenario = createDebtScenario();
+      scenario.settings.capitalStack.senior.covenants = { maxLtcPct: 10 };
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      expect(report.covenants.hasCovenants).toBe(true);
+      expect(report.covenants.breaches.length).toBeGreaterThan(0);
+      expect(report.covenants.breaches.every(b => b.measure === 'LTC')).toBe(true);
+    });
+  });
+
+  describe('22. Equity Modes', () => {
+    const createFundedScenario = () => {
+      const scenario = createMockScenario();
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 1200000, startDate: 0, span: 12,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      });
+      return scenario;
+    };
+    const basis = { purchasePrice: 1000000, acquisitionTotal: 1100000, hardCostBasis: 3000000 };
+
+    it('should resolve the equity pool for each mode', () => {
+      const equity = createMockSettings().capitalStack.equity;
+      expect(FinanceEngine.resolveEquityLimit(equity, basis, 0).toNumber()).toBe(500000);
+      expect(FinanceEngine.resolveEquityLimit({ ...equity, mode: EquityMode.PCT_LAND, percentageInput: 20 }, basis, 0).toNumber()).toBe(200000);
+      expect(FinanceEngine.resolveEquityLimit({ ...equity, mode: EquityMode.PCT_LAND, percentageInput: 20, includeAcquisitionCosts: true }, basis, 0).toNumber()).toBe(220000);
+      expect(FinanceEngine.resolveEquityLimit({ ...equity, mode: EquityMode.PCT_TOTAL_COST, percentageInput: 20 }, basis, 0).toNumber()).toBe(600000);
+      expect(FinanceEngine.resolveEquityLimit({ ...equity, mode: EquityMode.PCT_MONTHLY, percentageInput: 20 }, basis, 0).toNumber()).toBe(0);
+
+      const instalments = { ...equity, mode: EquityMode.INSTALMENTS, instalments: [{ id: 'a', month: 0, amount: 50000 }, { id: 'b', month: 5, amount: 300000 }] };
+      expect(FinanceEngine.resolveEquityLimit(instalments, basis, 4).toNumber()).toBe(50000);
+      expect(FinanceEngine.resolveEquityLimit(instalments, basis, 5).toNumber()).toBe(350000);
+    });
+
+    it('should draw equity instalments only from their dated month', () => {
+      const scenario = createFundedScenario();
+      scenario.settings.capitalStack.equity.mode = EquityMode.INSTALMENTS;
+      scenario.settings.capitalStack.equity.instalments = [{ id: 'a', month: 0, amount: 50000 }, { id: 'b', month: 5, amount: 300000 }];
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+
+      expect(flows[0].drawDownEquity).toBeCloseTo(50000);
+      expect(flows[4].balanceEquity).toBeCloseTo(50000);
+      expect(flows[1].drawDownSenior).toBeGreaterThan(0);
+      expect(flows[5].drawDownEquity).toBeGreaterThan(0);
+      expect(flows[5].drawDownSenior).toBe(0);
+      expect(Math.max(...flows.map(f => f.balanceEquity))).toBeCloseTo(350000);
+    });
+
+    it('should size equity on a percentage of total cost', () => {
+      const scenario = createFundedScenario();
+      scenario.settings.capitalStack.equity.mode = EquityMode.PCT_TOTAL_COST;
+      scenario.settings.capitalStack.equity.percentageInput = 25;
+      const fundingBasis = FinanceEngine.resolveFundingBasis(scenario, mockSite);
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(Math.max(...flows.map(f => f.balanceEquity))).toBeCloseTo(fundingBasis.hardCostBasis * 0.25);
+    });
+
+    it('should fund a fixed share of each month alongside debt when pari passu', () => {
+      const scenario = createFundedScenario();
+      scenario.settings.capitalStack.equity.mode = EquityMode.PCT_MONTHLY;
+      scenario.settings.capitalStack.equity.percentageInput = 30;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const funded = flows.filter(f => f.drawDownSenior + f.drawDownMezz > 0);
+      expect(funded.length).toBeGreaterThan(0);
+      funded.forEach(f => {
+        const total = f.drawDownEquity + f.drawDownSenior + f.drawDownMezz;
+        expect(f.drawDownEquity).toBeCloseTo(total * 0.3);
+      });
+    });
+  });
+
+  describe('23. Surplus Cash & Interest Reserves', () => {
+    const holdScenario = () => {
+      const scenario = createMockScenario('HOLD');
+      scenario.settings.durationMonths = 24;
+      scenario.settings.capitalStack.surplusInterestRate = 3;
+      scenario.settings.holdStrategy = {
+        refinanceLvr: 60, refinanceMonth: 10, investmentRate: 6, holdPeriodYears: 1,
+        annualCapitalGrowth: 0, terminalCapRate: 5, depreciationSplit: { capitalWorksPct: 85, plantPct: 15 }
+      };
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 1200000, startDate: 0, span: 6,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push({
+        id: 'h1', description: 'BTR Apartments', strategy: 'Hold', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false,
+        weeklyRent: 600, opexRate: 25, vacancyFactorPct: 5, leaseUpMonths: 0, capRate: 5
+      });
+      return scenario;
+    };
+
+    it('should release surplus to equity immediately by default', () => {
+      const flows = FinanceEngine.calculateMonthlyCashflow(holdScenario(), mockSite);
+      expect(flows.every(f => f.balanceCash === 0 && f.lendingInterestIncome === 0)).toBe(true);
+      expect(flows[11].repayEquity).toBeGreaterThan(0);
+    });
+
+    it('should retain surplus until all debt is repaid and earn interest on it', () => {
+      const scenario = holdScenario();
+      scenario.settings.capitalStack.retainSurplusUntilDebtRepaid = true;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const exit = flows.findIndex(f => f.repayInvestment > 0);
+      expect(exit).toBeGreaterThan(11);
+
+      flows.slice(10, exit).forEach(f => expect(f.repayEquity).toBe(0));
+      expect(flows[11].balanceCash).toBeGreaterThan(flows[10].balanceCash);
+      expect(flows[11].lendingInterestIncome).toBeCloseTo(flows[10].balanceCash * 0.03 / 12);
+      expect(flows[exit].balanceCash).toBe(0);
+      expect(flows[exit].repayEquity).toBeGreaterThan(flows[exit - 1].balanceCash);
+    });
+
+    it('should fund an interest reserve from the facility and pay interest from it', () => {
+      const scenario = createMockScenario();
+      scenario.settings.capitalStack.senior.interestReserveMonths = 6;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false
+      });
+      const rate = scenario.settings.capitalStack.senior.interestRate;
+      const reserve = 2000000 * rate / 100 / 12 * 6;
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+
+      const first = flows.findIndex(f => f.drawDownSenior > 0);
+      expect(flows[first].drawDownReserve).toBeCloseTo(reserve);
+      expect(flows[first].balanceSenior).toBeCloseTo(flows[first].drawDownSenior + reserve);
+      expect(flows[first + 1].reserveInterestPaid).toBeCloseTo(flows[first + 1].interestSenior);
+
+      const paid = flows.reduce((acc, f) => acc + f.reserveInterestPaid, 0);
+      const released = flows.reduce((acc, f) => acc + f.releaseReserve, 0);
+      expect(paid + released).toBeCloseTo(reserve);
+      expect(flows[flows.length - 1].balanceReserve).toBe(0);
+    });
+  });
+
+  describe('24. Funding Waterfall', () => {
+    const createWaterfallScenario = () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 14;
+      scenario.settings.capitalStack.mezzanine.limit = 300000;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      });
+      scenario.revenues.push({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: false
+      });
+      return scenario;
+    };
+
+    it('should default to equity, senior then mezzanine with a full sweep', () => {
+      const waterfall = FinanceEngine.resolveFundingWaterfall(createMockSettings().capitalStack);
+      expect(waterfall.drawOrder).toEqual([FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE]);
+      expect(waterfall.repaymentOrder).toEqual([FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY]);
+      expect(waterfall.debtSweepPct).toBe(100);
+    });
+
+    it('should draw mezzanine ahead of senior when ordered', () => {
+      const scenario = createWaterfallScenario();
+      scenario.settings.capitalStack.waterfall = {
+        drawOrder: [FundingSource.EQUITY, FundingSource.MEZZANINE, FundingSource.SENIOR],
+        repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+        debtSweepPct: 100
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const firstMezz = flows.findIndex(f => f.drawDownMezz > 0);
+      const firstSenior = flows.findIndex(f => f.drawDownSenior > 0);
+      expect(firstMezz).toBeGreaterThanOrEqual(0);
+      expect(firstSenior).toBeGreaterThanOrEqual(firstMezz);
+      expect(flows[firstSenior].balanceMezz).toBeCloseTo(300000);
+    });
+
+    it('should fund the pari-passu equity share when equity is ordered after debt', () => {
+      const scenario = createWaterfallScenario();
+      scenario.settings.capitalStack.equity.mode = EquityMode.PCT_MONTHLY;
+      scenario.settings.capitalStack.equity.percentageInput = 30;
+      scenario.settings.capitalStack.waterfall = {
+        drawOrder: [FundingSource.SENIOR, FundingSource.EQUITY, FundingSource.MEZZANINE],
+        repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+        debtSweepPct: 100
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const funded = flows.filter(f => f.drawDownSenior > 0);
+      expect(funded.length).toBeGreaterThan(0);
+      funded.forEach(f => {
+        const total = f.drawDownEquity + f.drawDownSenior + f.drawDownMezz;
+        expect(f.drawDownEquity).toBeCloseTo(total * 0.3);
+      });
+    });
+
+    it('should sweep only the configured share of surplus to debt', () => {
+      const scenario = createWaterfallScenario();
+      scenario.revenues[0].pricePerUnit = 400000;
+      scenario.settings.capitalStack.waterfall = {
+        drawOrder: [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE],
+        repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+        debtSweepPct: 50
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const settlement = flows.find(f => f.grossRevenue > 0)!;
+      const surplus = settlement.netCashflow;
+      expect(settlement.repaySenior + settlement.repayMezz).toBeCloseTo(surplus * 0.5);
+      expect(settlement.repayEquity).toBe(0);
+      expect(settlement.balanceCash).toBeCloseTo(surplus * 0.5);
+    });
+
+    it('should clear all debt by the horizon under a partial sweep', () => {
+      const scenario = createWaterfallScenario();
+      scenario.revenues[0].pricePerUnit = 400000;
+      scenario.settings.capitalStack.waterfall = {
+        drawOrder: [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE],
+        repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+        debtSweepPct: 50
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const last = flows[flows.length - 1];
+      expect(last.balanceSenior).toBeCloseTo(0);
+      expect(last.balanceMezz).toBeCloseTo(0);
+      expect(last.balanceCash).toBe(0);
+      const equityIn = flows.reduce((acc, f) => acc + f.drawDownEquity, 0);
+      const equityOut = flows.reduce((acc, f) => acc + f.repayEquity, 0);
+      const profit = FinanceEngine.calculateProjectMetrics(flows, scenario.settings, mockSite).netProfit;
+      expect(equityOut - equityIn).toBeCloseTo(profit, -3);
+    });
+
+    it('should return equity capital ahead of mezzanine when ordered', () => {
+      const scenario = createWaterfallScenario();
+      scenario.revenues[0].pricePerUnit = 380000;
+      scenario.settings.capitalStack.waterfall = {
+        drawOrder: [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE],
+        repaymentOrder: [FundingSource.SENIOR, FundingSource.EQUITY, FundingSource.MEZZANINE],
+        debtSweepPct: 100
+      };
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const settlement = flows.find(f => f.grossRevenue > 0)!;
+      const equityIn = flows.reduce((acc, f) => acc + f.drawDownEquity, 0);
+      expect(settlement.balanceSenior).toBe(0);
+      expect(settlement.repayEquity).toBeCloseTo(equityIn);
+      expect(settlement.repayMezz).toBeCloseTo(settlement.netCashflow - settlement.repaySenior - equityIn);
+    });
+  });
+
+  describe('25. Sales Absorption & Pre-Sales', () => {
+    const timeline = { settlementMonth: 1, constructionStartMonth: 2, constructionSpan: 10, constructionEndMonth: 12 };
+    const createOffPlanItem = (overrides: Partial<RevenueItem> = {}): RevenueItem => ({
+      id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+      units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 2, commissionRate: 0, isTaxable: true,
+      isOffThePlan: true, absorptionRate: 2, preSoldUnits: 4,
+      ...overrides
+    });
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    it('should settle standard items evenly from completion', () => {
+      const sales = FinanceEngine.calculateSalesFlows(createOffPlanItem({ isOffThePlan: false }), createMockSettings(), timeline, 24);
+      expect(sales.revenue[12]).toBeCloseTo(2500000);
+      expect(sales.revenue[13]).toBeCloseTo(2500000);
+      expect(sum(sales.revenue)).toBeCloseTo(5000000);
+      expect(sales.preSales[11]).toBe(4);
+      expect(sales.preSales[13]).toBe(0);
+    });
+
+    it('should exchange pre-sales at launch then at the absorption rate, holding deposits in trust', () => {
+      const sales = FinanceEngine.calculateSalesFlows(createOffPlanItem(), createMockSettings(), timeline, 24);
+      expect(sales.exchanges.slice(2, 6)).toEqual([6, 2, 2, 0]);
+      expect(sales.depositsHeld[4]).toBeCloseTo(500000);
+      expect(sum(sales.revenue.slice(0, 12))).toBe(0);
+      expect(sales.preSales[11]).toBe(10);
+      expect(sales.preSaleValue[11]).toBeCloseTo(5000000);
+      expect(sales.revenue[12]).toBeCloseTo(2500000);
+      expect(sales.preSales[12]).toBe(5);
+      expect(sales.depositsHeld[13]).toBe(0);
+      expect(sum(sales.settlements)).toBeCloseTo(10);
+    });
+
+    it('should release deposits to the project at exchange under a deposit bond', () => {
+      const sales = FinanceEngine.calculateSalesFlows(createOffPlanItem({ depositTreatment: 'RELEASED' }), createMockSettings(), timeline, 24);
+      expect(sales.depositsReleased[2]).toBeCloseTo(300000);
+      expect(sales.revenue[2]).toBeCloseTo(300000);
+      expect(sales.revenue[12]).toBeCloseTo(5 * 450000);
+      expect(sales.depositsHeld.every(v => v === 0)).toBe(true);
+      expect(sum(sales.revenue)).toBeCloseTo(5000000);
+      expect(sum(sales.taxableSupplies)).toBeCloseTo(5000000);
+    });
+
+    it('should forfeit deposits on failed settlements and resell the units', () => {
+      const sales = FinanceEngine.calculateSalesFlows(createOffPlanItem({ settlementFailurePct: 20 }), createMockSettings(), timeline, 24);
+      expect(sales.forfeitedDeposits[12]).toBeCloseTo(100000);
+      expect(sales.exchanges[12]).toBe(2);
+      expect(sales.revenue[12]).toBeCloseTo(100000 + 2 * 500000 + 4 * 500000);
+      expect(sum(sales.settlements)).toBeCloseTo(10);
+      expect(sum(sales.revenue)).toBeCloseTo(5100000);
+    });
+
+    it('should receive a forfeited deposit once whether held in trust or released', () => {
+      const item = { units: 10, pricePerUnit: 100, depositPct: 10, settlementFailurePct: 50, preSoldUnits: 10, absorptionRate: 0 };
+      const trust = FinanceEngine.calculateSalesFlows(createOffPlanItem(item), createMockSettings(), timeline, 24);
+      const released = FinanceEngine.calculateSalesFlows(createOffPlanItem({ ...item, depositTreatment: 'RELEASED' }), createMockSettings(), timeline, 24);
+      expect(trust.forfeitedDeposits[12]).toBeCloseTo(50);
+      expect(released.forfeitedDeposits[12]).toBeCloseTo(50);
+      expect(sum(trust.revenue)).toBeCloseTo(1050);
+      expect(sum(released.revenue)).toBeCloseTo(1050);
+    });
+
+    it('should carry deposits and pre-sales into the monthly cashflow and pre-sale covenant', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push(createOffPlanItem({ depositTreatment: 'RELEASED', salesLaunchMonth: 1 }));
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+
+      expect(flows[1].unitsExchanged).toBe(6);
+      expect(flows[1].depositsReleased).toBeCloseTo(300000);
+      expect(flows[1].grossRevenue).toBeCloseTo(300000);
+      expect(flows[1].gstOnSales).toBe(0);
+      expect(flows.reduce((acc, f) => acc + f.unitsSettled, 0)).toBeCloseTo(10);
+
+      const result = CovenantService.evaluate(flows, scenario, 5000000);
+      const m = flows.findIndex(f => f.balanceSenior > 0 && f.preSales === 10);
+      expect(m).toBeGreaterThanOrEqual(0);
+      expect(result.months[m].senior.presaleCoverPct).toBeCloseTo(5000000 / flows[m].balanceSenior * 100);
+    });
+  });
+
+  describe('26. Sales Price Escalation & Releases', () => {
+    const timeline = { settlementMonth: 1, constructionStartMonth: 2, constructionSpan: 10, constructionEndMonth: 12 };
+    const createStagedItem = (overrides: Partial<RevenueItem> = {}): RevenueItem => ({
+      id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+      units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 2, commissionRate: 0, isTaxable: true,
+      releases: [
+        { id: 's1', label: 'Stage 1', units: 4, priceUpliftPct: 0 },
+        { id: 's2', label: 'Stage 2', units: 6, priceUpliftPct: 5 }
+      ],
+      ...overrides
+    });
+
+    it('should escalate sale prices from the model start to settlement', () => {
+      const settings = createMockSettings();
+      settings.growth.salesPriceEscalation = 12;
+      const item = createStagedItem({ releases: [], settlementSpan: 1 });
+      const sales = FinanceEngine.calculateSalesFlows(item, settings, timeline, 24);
+      expect(sales.revenue[12]).toBeCloseTo(5000000 * 1.12);
+    });
+
+    it('should sell each release in order at its uplifted price', () => {
+      const item = createStagedItem();
+      const sales = FinanceEngine.calculateSalesFlows(item, createMockSettings(), timeline, 24);
+      expect(FinanceEngine.calculateSaleValue(item)).toBeCloseTo(4 * 500000 + 6 * 525000);
+      expect(sales.releaseRevenue[0][12]).toBeCloseTo(2000000);
+      expect(sales.releaseRevenue[1][12]).toBeCloseTo(525000);
+      expect(sales.releaseRevenue[1][13]).toBeCloseTo(5 * 525000);
+      expect(sales.revenue[12]).toBeCloseTo(2525000);
+    });
+
+    it('should sell units outside the releases last at the base price', () => {
+      const item = createStagedItem({ units: 12 });
+      const tranches = FinanceEngine.resolvePriceReleases(item);
+      expect(tranches.map(t => t.label)).toEqual(['Stage 1', 'Stage 2', 'Unreleased']);
+      expect(tranches[2]).toMatchObject({ units: 2, price: 500000 });
+    });
+
+    it('should show sales revenue by release in the itemised cashflow', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.settings.growth.salesPriceEscalation = 6;
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.FIXED, amount: 3000000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE
+      });
+      scenario.revenues.push(createStagedItem());
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const itemised = FinanceEngine.generateItemisedCashflowData(scenario, mockSite, flows);
+
+      const sales = itemised.categories.find(c => c.name === 'Sales Revenue')!;
+      expect(sales.rows.map(r => r.label)).toEqual(['Apartments - Stage 1', 'Apartments - Stage 2']);
+      const itemisedTotal = sales.rows.reduce((acc, r) => acc + r.total, 0);
+      expect(itemisedTotal).toBeCloseTo(flows.reduce((acc, f) => acc + f.grossRevenue, 0));
+      expect(itemisedTotal).toBeGreaterThan(FinanceEngine.calculateSaleValue(scenario.revenues[0]));
+    });
+  });
+
+  describe('27. Unit Mix Schedule', () => {
+    const createMix = (): UnitMixSchedule => ({
+      efficiencyPct: 80,
+      rows: [
+        { id: 'a', type: '2 Bed', beds: 2, internalSqm: 75, externalSqm: 10, carSpaces: 1, count: 4, pricingBasis: 'PER_UNIT', rate: 600000 },
+        { id: 'b', type: '3 Bed', beds: 3, internalSqm: 100, externalSqm: 15, carSpaces: 2, count: 2, pricingBasis: 'PER_SQM', rate: 9000 }
+      ]
+    });
+
+    it('should summarise units, areas and revenue across the mix', () => {
+      const summary = UnitMixService.summarise(createMix());
+      expect(summary.lines[1].unitPrice).toBe(900000);
+      expect(summary.totalUnits).toBe(6);
+      expect(summary.nsa).toBe(500);
+      expect(summary.gfa).toBeCloseTo(625);
+      expect(summary.externalSqm).toBe(70);
+      expect(summary.carSpaces).toBe(8);
+      expect(summary.grossRevenue).toBe(4200000);
+      expect(summary.averagePrice).toBe(700000);
+      expect(summary.averageRatePerSqm).toBe(8400);
+    });
+
+    it('should generate Sell items per row, keeping sale terms and manual items', () => {
+      const manual: RevenueItem = {
+        id: 'm1', description: 'Retail', strategy: 'Sell', calcMode: 'LUMP_SUM',
+        units: 1, pricePerUnit: 1000000, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true
+      };
+      const mix = createMix();
+      const first = UnitMixService.generateRevenues(mix, [manual]);
+      expect(first).toHaveLength(3);
+      expect(first[0]).toBe(manual);
+      expect(first[2]).toMatchObject({ unitMixId: 'b', description: '3 Bed', units: 2, pricePerUnit: 900000, strategy: 'Sell' });
+
+      const edited = first.map(rev => rev.unitMixId === 'a' ? { ...rev, commissionRate: 1.5 } : rev);
+      mix.rows[0].count = 5;
+      mix.rows.pop();
+      const second = UnitMixService.generateRevenues(mix, edited);
+      expect(second).toHaveLength(2);
+      expect(second[1]).toMatchObject({ unitMixId: 'a', units: 5, commissionRate: 1.5 });
+    });
+
+    it('should drive NSA, GFA and unit counts in metrics and per-unit costs', () => {
+      const scenario = createMockScenario();
+      scenario.settings.unitMix = createMix();
+      scenario.revenues = UnitMixService.generateRevenues(scenario.settings.unitMix, []);
+      scenario.costs.push({
+        id: 'c1', code: 'C1', category: CostCategory.CONSTRUCTION, description: 'Build',
+        inputType: InputType.RATE_PER_UNIT, amount: 300000, startDate: 0, span: 10,
+        method: DistributionMethod.LINEAR, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE
+      });
+
+      expect(FinanceEngine.calculateLineItemTotal(scenario.costs[0], scenario.settings, mockSite, 0, 0)).toBe(6 * 300000);
+
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      expect(report.metrics.benchmarks.areaEfficiency).toBeCloseTo(80);
+      expect(report.metrics.benchmarks.salesRealisation).toBeCloseTo(report.metrics.netRealisation / 500);
+      expect(report.metrics.benchmarks.constructionEfficiency).toBeCloseTo(1800000 / 625);
+      expect(report.metrics.ratios.profitPerUnit).toBeCloseTo(report.metrics.netProfit / 6);
+      expect(report.unitMix?.totalUnits).toBe(6);
+    });
+
+    it('should fall back to the site areas without a unit mix', () => {
+      const site = { ...mockSite, identity: { ...mockSite.identity, totalGFA: 1000, totalNSA: 700 } };
+      expect(UnitMixService.resolveAreas(createMockSettings(), site)).toEqual({ gfa: 1000, nsa: 700 });
+      expect(UnitMixService.resolveTotalUnits(createMockSettings())).toBe(10);
+      expect(ReportService.runFeasibility(createMockScenario(), site).unitMix).toBeUndefined();
+    });
+  });
+
+  describe('28. Revenue Calculation Modes', () => {
+    const timeline = { settlementMonth: 1, constructionStartMonth: 2, constructionSpan: 10, constructionEndMonth: 12 };
+    const createItem = (overrides: Partial<RevenueItem>): RevenueItem => ({
+      id: 'r1', description: 'Item', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+      units: 1, pricePerUnit: 0, offsetFromCompletion: 0, settlementSpan: 1, commissionRate: 0, isTaxable: true,
+      ...overrides
+    });
+
+    it('should value each mode by its own basis', () => {
+      expect(FinanceEngine.calculateSaleValue(createItem({ calcMode: 'LUMP_SUM', units: 3, pricePerUnit: 2000000 }))).toBe(2000000);
+      expect(FinanceEngine.calculateSaleValue(createItem({ calcMode: 'RATE_PER_SQM', areaSqm: 450, pricePerUnit: 9000 }))).toBe(4050000);
+      expect(FinanceEngine.calculateSaleValue(createItem({ calcMode: 'RATE_PER_CAR_SPACE', units: 12, pricePerUnit: 60000 }))).toBe(720000);
+      expect(FinanceEngine.calculateSaleValue(createItem({ calcMode: 'QUANTITY_RATE', units: 4, pricePerUnit: 500000 }))).toBe(2000000);
+    });
+
+    it('should sell a lump sum with no units as a single lot', () => {
+      const item = createItem({ calcMode: 'LUMP_SUM', units: 0, pricePerUnit: 1500000 });
+      const sales = FinanceEngine.calculateSalesFlows(item, createMockSettings(), timeline, 24);
+      expect(sales.revenue.reduce((a, b) => a + b, 0)).toBeCloseTo(1500000);
+    });
+
+    it('should reconcile engine revenue to the sale values of every mode', () => {
+      const scenario = createMockScenario();
+      scenario.revenues = [
+        createItem({ id: 'a', calcMode: 'QUANTITY_RATE', units: 4, pricePerUnit: 500000 }),
+        createItem({ id: 'b', calcMode: 'RATE_PER_SQM', units: 0, areaSqm: 200, pricePerUnit: 8000 }),
+        createItem({ id: 'c', calcMode: 'RATE_PER_CAR_SPACE', units: 6, pricePerUnit: 50000 }),
+        createItem({ id: 'd', calcMode: 'LUMP_SUM', units: 2, pricePerUnit: 750000 })
+      ];
+      const expected = scenario.revenues.reduce((acc, r) => acc + FinanceEngine.calculateSaleValue(r), 0);
+      expect(expected).toBe(2000000 + 1600000 + 300000 + 750000);
+
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(flows.reduce((acc, f) => acc + f.grossRevenue, 0)).toBeCloseTo(expected);
+    });
+  });
+
+  describe('29. Selling Cost Breakdown', () => {
+    const timeline = { settlementMonth: 1, constructionStartMonth: 2, constructionSpan: 10, constructionEndMonth: 12 };
+    const createOffPlanItem = (overrides: Partial<RevenueItem> = {}): RevenueItem => ({
+      id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+      units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 2, commissionRate: 0, isTaxable: true,
+      isOffThePlan: true, absorptionRate: 2, preSoldUnits: 4,
+      ...overrides
+    });
+    const createSellingCost = (overrides: Partial<LineItem>): LineItem => ({
+      id: 's1', code: 'S1', category: CostCategory.SELLING, description: 'Selling',
+      inputType: InputType.FIXED, amount: 0, startDate: 0, span: 1,
+      method: DistributionMethod.UPFRONT, escalationRate: 0, gstTreatment: GstTreatment.TAXABLE,
+      ...overrides
+    });
+    const createSettings = () => {
+      const settings = createMockSettings();
+      settings.durationMonths = 18;
+      settings.defaultEscalationRate = 0;
+      return settings;
+    };
+    const createProgramme = (settings: FeasibilitySettings) => {
+      const scenario = createMockScenario();
+      scenario.settings = settings;
+      scenario.revenues.push(createOffPlanItem());
+      return FinanceEngine.resolveSalesProgramme(scenario, timeline, settings.durationMonths);
+    };
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    it('should split agent commission between exchange and settlement', () => {
+      const settings = createSettings();
+      const sales = createProgramme(settings);
+      const fee = createSellingCost({ specialTag: 'AGENT_FEE', inputType: InputType.PCT_REVENUE, amount: 2, exchangePct: 50 });
+      const flows = FinanceEngine.calculateLineItemFlows(fee, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+
+      expect(flows[2]).toBeCloseTo(6 * 500000 * 0.5 * 0.02);
+      expect(flows[3]).toBeCloseTo(2 * 500000 * 0.5 * 0.02);
+      expect(flows[12]).toBeCloseTo(5 * 500000 * 0.5 * 0.02);
+      expect(sum(flows)).toBeCloseTo(100000);
+    });
+
+    it('should charge conveyancing per settlement and spread fixed fees on the same basis', () => {
+      const settings = createSettings();
+      const sales = createProgramme(settings);
+      const legal = createSellingCost({ specialTag: 'LEGAL_SALES', inputType: InputType.RATE_PER_UNIT, amount: 1500 });
+      const legalFlows = FinanceEngine.calculateLineItemFlows(legal, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+      expect(legalFlows[12]).toBeCloseTo(5 * 1500);
+      expect(legalFlows[13]).toBeCloseTo(5 * 1500);
+      expect(sum(legalFlows)).toBeCloseTo(15000);
+
+      const fixedLegal = FinanceEngine.calculateLineItemFlows({ ...legal, inputType: InputType.FIXED, amount: 20000 }, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+      expect(fixedLegal[12]).toBeCloseTo(10000);
+    });
+
+    it('should keep selling costs on settlements after the model duration', () => {
+      const settings = createSettings();
+      const scenario = createMockScenario();
+      scenario.settings = settings;
+      scenario.revenues.push(createOffPlanItem({ isOffThePlan: false, offsetFromCompletion: 10 }));
+      const sales = FinanceEngine.resolveSalesProgramme(scenario, timeline, 24);
+      const legal = createSellingCost({ specialTag: 'LEGAL_SALES', inputType: InputType.RATE_PER_UNIT, amount: 1500 });
+      const flows = FinanceEngine.calculateLineItemFlows(legal, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+      expect(flows).toHaveLength(25);
+      expect(flows[22]).toBeCloseTo(5 * 1500);
+      expect(flows[23]).toBeCloseTo(5 * 1500);
+      expect(sum(flows)).toBeCloseTo(15000);
+    });
+
+    it('should keep marketing budgets and untagged or unsold items on their own phasing', () => {
+      const settings = createSettings();
+      const sales = createProgramme(settings);
+      const campaign = createSellingCost({ amount: 30000, startDate: 2, span: 3, method: DistributionMethod.LINEAR });
+      const campaignFlows = FinanceEngine.calculateLineItemFlows(campaign, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+      expect(campaignFlows.slice(2, 5).map(v => Math.round(v))).toEqual([10000, 10000, 10000]);
+
+      const fee = createSellingCost({ specialTag: 'AGENT_FEE', inputType: InputType.PCT_REVENUE, amount: 2 });
+      const unsold = FinanceEngine.calculateLineItemFlows(fee, settings, mockSite, 0, 5000000, timeline);
+      expect(unsold[0]).toBeCloseTo(100000);
+    });
+
+    it('should itemise revenue commission under selling costs and net it from the realisation', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.revenues.push(createOffPlanItem({ isOffThePlan: false, commissionRate: 2 }));
+      scenario.costs.push(createSellingCost({ description: 'Display Suite', amount: 50000 }));
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      const commission = sum(flows.map(f => f.sellingCommission));
+      expect(commission).toBeCloseTo(100000);
+
+      const selling = report.cashflow.itemised.categories.find(c => c.name === CostCategory.SELLING)!;
+      expect(selling.rows.map(r => r.label)).toEqual(['Apartments - Commission', 'Display Suite']);
+      expect(selling.rows[0].total).toBeCloseTo(commission);
+      expect(sum(flows.map(f => f.costBreakdown[CostCategory.SELLING] || 0))).toBeCloseTo(150000);
+
+      const implicit = report.itemSummaries.find(i => i.isImplicit)!;
+      expect(implicit).toMatchObject({ id: 'commission-r1', category: CostCategory.SELLING });
+      expect(implicit.netAmount).toBeCloseTo(100000);
+      expect(report.metrics.netRealisation).toBeCloseTo(report.metrics.grossRealisation - report.metrics.gstOnSales - 100000);
+    });
+
+    it('should charge the agent fee item in place of the revenue item commission rate', () => {
+      const scenario = createMockScenario();
+      scenario.settings.durationMonths = 18;
+      scenario.revenues.push(createOffPlanItem({ isOffThePlan: false, commissionRate: 2 }));
+      scenario.costs.push(createSellingCost({ specialTag: 'AGENT_FEE', inputType: InputType.PCT_REVENUE, amount: 2 }));
+      const flows = FinanceEngine.calculateMonthlyCashflow(scenario, mockSite);
+      expect(sum(flows.map(f => f.sellingCommission))).toBe(0);
+      expect(sum(flows.map(f => f.costBreakdown[CostCategory.SELLING] || 0))).toBeCloseTo(100000);
+
+      const report = ReportService.runFeasibility(scenario, mockSite);
+      expect(report.itemSummaries.some(i => i.isImplicit && i.category === CostCategory.SELLING)).toBe(false);
+    });
+
+    it('should pay the exchange share once on units resold after a failed settlement', () => {
+      const settings = createSettings();
+      const scenario = createMockScenario();
+      scenario.settings = settings;
+      scenario.revenues.push(createOffPlanItem({ settlementFailurePct: 20 }));
+      const sales = FinanceEngine.resolveSalesProgramme(scenario, timeline, settings.durationMonths);
+      expect(sum(sales.exchangeValue)).toBeCloseTo(5000000);
+      expect(sum(sales.settlementValue)).toBeCloseTo(5000000);
+
+      const fee = createSellingCost({ specialTag: 'AGENT_FEE', inputType: InputType.PCT_REVENUE, amount: 2, exchangePct: 50 });
+      const flows = FinanceEngine.calculateLineItemFlows(fee, settings, mockSite, 0, 5000000, timeline, DEFAULT_TAX_SCALES, sales);
+      expect(sum(flows)).toBeCloseTo(100000);
+    });
+  });
+
+  describe('30. Escalation Migration', () => {
+    const item = (overrides: Partial<LineItem>): LineItem => ({
+      id: 'c1', code: 'C1', category: CostCategory.CONSULTANTS, description: 'Design',
+      inputType: InputType.FIXED, amount: 100000, startDate: 6, span: 1,
+      method: DistributionMethod.UPFRONT, escalationRate: 0, gstTreatment: GstTreatment.GST_FREE,
+      ...overrides
+    });
+
+    it('should let saved zero rates follow the global rate, keeping statutory charges flat', () => {
+      const scenario = createMockScenario();
+      scenario.costs = [
+        item({ id: 'inherit' }),
+        item({ id: 'pinned', escalationRate: 4 }),
+        item({ id: 'duty', category: CostCategory.STATUTORY }),
+        item({ id: 'landTax', category: CostCategory.LAND, calculationLink: 'AUTO_LAND_TAX' })
+      ];
+      const [migrated] = migrateSiteEscalation({ ...mockSite, scenarios: [scenario] }).scenarios;
+      expect(migrated.costs.map(c => c.escalationRate)).toEqual([undefined, 4, 0, 0]);
+      expect('escalationRate' in migrated.costs[0]).toBe(false);
+      expect(FinanceEngine.resolveEscalationRate(migrated.costs[0], migrated.settings)).toBe(3.0);
+    });
+  });
 });
@@ -1,8 +1,8 @@
 
 import { describe, it, expect } from 'vitest';
-import { safeParseScenario, FeasibilitySettingsSchema, LineItemSchema } from '../schemas';
+import { safeParseScenario, FeasibilitySettingsSchema, LineItemSchema, RevenueItemSchema } from '../schemas';
 import { createDefaultScenario } from '../constants';
-import { FeasibilityScenario, CostCategory, InputType, DistributionMethod, GstTreatment } from '../types';
+import { FeasibilityScenario, CostCategory, InputType, DistributionMethod, GstTreatment, FundingSource } from '../types';
 
 describe('Runtime Schema Validation', () => {
   
@@ -69,6 +69,34 @@ describe('Runtime Schema Validation', () => {
         const result = FeasibilitySettingsSchema.safeParse(settings);
         expect(result.success).toBe(false);
     });
+
+    // Issues raised against the waterfall only (the shared default settings are mutated above)
+    const waterfallIssues = (waterfall: object) => {
+        const settings = createDefaultScenario().settings;
+        const result = FeasibilitySettingsSchema.safeParse({ ...settings, capitalStack: { ...settings.capitalStack, waterfall } });
+        return result.success ? [] : result.error.issues.filter(i => i.path.includes('waterfall'));
+    };
+
+    it('should accept a funding waterfall listing each source once', () => {
+        expect(waterfallIssues({
+            drawOrder: [FundingSource.EQUITY, FundingSource.MEZZANINE, FundingSource.SENIOR],
+            repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+            debtSweepPct: 80
+        })).toHaveLength(0);
+    });
+
+    it('should reject a funding waterfall with a repeated source or sweep > 100', () => {
+        expect(waterfallIssues({
+            drawOrder: [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.SENIOR],
+            repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+            debtSweepPct: 100
+        })).not.toHaveLength(0);
+        expect(waterfallIssues({
+            drawOrder: [FundingSource.EQUITY, FundingSource.SENIOR, FundingSource.MEZZANINE],
+            repaymentOrder: [FundingSource.SENIOR, FundingSource.MEZZANINE, FundingSource.EQUITY],
+            debtSweepPct: 120
+        })).not.toHaveLength(0);
+    });
   });
 
   describe('LineItem Constraints', () => {
@@ -105,4 +133,35 @@ describe('Runtime Schema Validation', () => {
     });
   });
 
+  describe('RevenueItem Constraints', () => {
+    const createItem = (releases: { id: string; label: string; units: number; priceUpliftPct: number }[]) => ({
+        id: 'r1', description: 'Apartments', strategy: 'Sell', calcMode: 'QUANTITY_RATE',
+        units: 10, pricePerUnit: 500000, offsetFromCompletion: 0, settlementSpan: 2, commissionRate: 2, isTaxable: true,
+        releases
+    });
+
+    it('should accept price releases within the item quantity', () => {
+        const result = RevenueItemSchema.safeParse(createItem([
+            { id: 's1', label: 'Stage 1', units: 4, priceUpliftPct: 0 },
+            { id: 's2', label: 'Stage 2', units: 6, priceUpliftPct: 5 }
+        ]));
+        expect(result.success).toBe(true);
+    });
+
+    it('should reject price releases holding more units than the item', () => {
+        const result = RevenueItemSchema.safeParse(createItem([
+            { id: 's1', label: 'Stage 1', units: 8, priceUpliftPct: 0 },
+            { id: 's2', label: 'Stage 2', units: 6, priceUpliftPct: 5 }
+        ]));
+        expect(result.success).toBe(false);
+        if (!result.success) expect(result.error.issues[0].path).toEqual(['releases']);
+    });
+
+    it('should accept per-sqm and per-car-space calculation modes', () => {
+        expect(RevenueItemSchema.safeParse({ ...createItem([]), calcMode: 'RATE_PER_SQM', areaSqm: 450 }).success).toBe(true);
+        expect(RevenueItemSchema.safeParse({ ...createItem([]), calcMode: 'RATE_PER_CAR_SPACE' }).success).toBe(true);
+        expect(RevenueItemSchema.safeParse({ ...createItem([]), calcMode: 'RATE_PER_SQM', areaSqm: -1 }).success).toBe(false);
+    });
+  });
+
 });
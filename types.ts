@@ -108,9 +108,53 @@ export interface SensitivityRow {
 }
 
 // --- CANONICAL FINANCIAL MODEL ---
+export type IrrStatus = 'OK' | 'NO_INVESTMENT' | 'NOT_RECOVERED' | 'MULTIPLE_ROOTS' | 'NO_CONVERGENCE';
+
+export interface IrrResult {
+  rate: number | null; // Per-period decimal (monthly for model flows, annual for XIRR)
+  status: IrrStatus;
+  reason?: string; // Why the rate is missing or ambiguous
+  signChanges: number;
+  roots: number[]; // Every rate found where NPV = 0
+}
+
+// Cost bases that size facilities and percentage equity
+export interface FundingBasis {
+  purchasePrice: number;
+  acquisitionTotal: number; // Price plus duty, buyer's agent and legal fees
+  hardCostBasis: number; // Budgeted costs (ex finance) plus acquisition
+}
+
+// Sell item sales programme: exchanges, deposits and settlements per month
+export interface SalesFlows {
+  exchanges: number[]; // Units exchanged
+  settlements: number[]; // Units settled
+  revenue: number[]; // Cash received: released deposits, settlement balances and forfeited deposits
+  taxableSupplies: number[]; // Price of settled units plus forfeited deposits, the GST base
+  depositsReleased: number[];
+  depositsHeld: number[]; // Trust balance at month end
+  forfeitedDeposits: number[];
+  preSales: number[]; // Contracts exchanged and not yet settled at month end
+  preSaleValue: number[];
+  exchangeValue: number[]; // Contract price of units exchanged, net of resales of failed contracts; standard items exchange as they settle
+  settlementValue: number[]; // Contract price of units settled
+  releaseRevenue: number[][]; // Cash received per price release
+}
+
+// Sales programme across all Sell items, the timing basis for commission and conveyancing on sale
+export type SalesProgramme = Pick<SalesFlows, 'exchangeValue' | 'settlementValue' | 'settlements'>;
+
+// Monthly operating cashflow of a Hold revenue item across the model horizon
+export interface RentalFlows {
+  grossRent: number[]; // After lease-up and vacancy
+  opex: number[];
+  noi: number[];
+}
+
 export interface ProjectFinancials {
   grossRealisation: number; 
   gstOnSales: number;
+  sellingCommission: number; // Revenue item commission, deducted in the net realisation
   netRealisation: number; 
   
   totalCostGross: number; 
@@ -121,6 +165,33 @@ export interface ProjectFinancials {
   marginOnCost: number;
 }
 
+// Monthly tax depreciation on the construction cost of held assets
+export interface DepreciationSchedule {
+  capitalWorks: number[]; // Div 43
+  plant: number[]; // Div 40
+}
+
+export interface DepreciationYear {
+  year: number; // Income year from completion
+  startMonth: number;
+  endMonth: number;
+  capitalWorks: number;
+  plant: number;
+  total: number;
+  closingCapitalWorks: number; // Written-down values at year end
+  closingPlant: number;
+}
+
+// Returns over the hold period, from the start of the project to the terminal sale
+export interface HoldMetrics {
+  exitMonth: number;
+  terminalValue: number; // Gross, before selling costs
+  leveredIRR: number | null; // Annual %, equity flows
+  unleveredIRR: number | null; // Annual %, project flows
+  cashOnCashYield: number; // Average annual NOI less investment interest, % of peak equity
+  equityMultiple: number;
+}
+
 // --- REPORTING METRICS ---
 export interface ProjectMetrics extends ProjectFinancials {
   totalDevelopmentCost: number; 
@@ -134,6 +205,16 @@ export interface ProjectMetrics extends ProjectFinancials {
   
   equityIRR: number | null; 
   projectIRR: number | null;
+  equityXIRR: number | null; // Date-based (actual/365) from settings.startDate
+  projectXIRR: number | null;
+  irrDiagnostics: { equity: IrrResult; project: IrrResult };
+  hold?: HoldMetrics; // Present when the cashflow includes a terminal sale
+
+  // Discounted at settings.discountRate
+  equityNPV: number;
+  projectNPV: number;
+  equityXNPV: number;
+  projectXNPV: number;
   
   gstCollected: number;
   netGstPayable: number;
@@ -162,6 +243,13 @@ export interface ProjectMetrics extends ProjectFinancials {
   };
 }
 
+export interface ProjectTimeline {
+  settlementMonth: number;
+  constructionStartMonth: number;
+  constructionSpan: number;
+  constructionEndMonth: number; // Practical completion (month after final construction spend)
+}
+
 export interface GstAuditEntry {
   id: string;
   label: string;
@@ -171,6 +259,16 @@ export interface GstAuditEntry {
   preGstAmount: number;  // Net
 }
 
+export interface BasQuarter {
+  label: string;
+  startMonth: number;
+  endMonth: number;
+  gstCollected: number;
+  inputTaxCredits: number;
+  netGst: number; // Positive = payable to ATO, negative = refund
+  settlementMonth: number; // Month the BAS is lodged and settled
+}
+
 export interface LineItemSummary {
   id: string;
   category: CostCategory;
@@ -181,6 +279,67 @@ export interface LineItemSummary {
   isImplicit: boolean; 
 }
 
+export interface JvPartnerResult {
+  name: string;
+  contributions: number[]; // Monthly equity paid in
+  distributions: number[]; // Monthly equity returned (capital + profit)
+  totalContributed: number;
+  totalDistributed: number;
+  profit: number;
+  profitSharePct: number; // Share of total JV profit
+  equityMultiple: number;
+  irr: number | null; // Annualised %
+}
+
+export interface JvTierResult {
+  label: string;
+  partnerSharePct: number;
+  distributed: number;
+  toPartner: number;
+  toDeveloper: number;
+}
+
+export interface JvWaterfallResult {
+  developer: JvPartnerResult;
+  partner: JvPartnerResult;
+  tiers: JvTierResult[];
+}
+
+export type CovenantTier = 'senior' | 'mezzanine';
+export type CovenantMeasure = 'LTC' | 'LVR' | 'PRESALE_COVER' | 'ICR';
+
+export interface CovenantBreach {
+  monthIndex: number;
+  label: string;
+  tier: CovenantTier;
+  measure: CovenantMeasure;
+  actual: number;
+  threshold: number;
+}
+
+// Ratios for the debt ranking up to and including a tier; null when not tested that month
+export interface CovenantRatios {
+  debt: number;
+  ltcPct: number | null;
+  lvrPct: number | null;
+  presaleCoverPct: number | null;
+  icr: number | null;
+}
+
+export interface CovenantMonth {
+  monthIndex: number;
+  label: string;
+  senior: CovenantRatios;
+  mezzanine: CovenantRatios;
+  breached: boolean;
+}
+
+export interface CovenantResult {
+  months: CovenantMonth[];
+  breaches: CovenantBreach[];
+  hasCovenants: boolean;
+}
+
 export interface ReportModel {
   timestamp: string;
   basis: {
@@ -190,6 +349,11 @@ export interface ReportModel {
   metrics: ProjectMetrics;
   itemSummaries: LineItemSummary[]; 
   gstAudit: GstAuditEntry[]; // Granular audit for PDF reports
+  basSchedule: BasQuarter[];
+  jv?: JvWaterfallResult; // Present when a joint venture is enabled
+  depreciation: DepreciationYear[]; // Empty unless the scenario holds assets
+  covenants: CovenantResult;
+  unitMix?: UnitMixSummary; // Present when the scenario has a unit mix schedule
   reconciliation: {
     totalCostGross: number;
     gstInputCredits: number;
@@ -296,6 +460,18 @@ export enum EquityMode {
   PCT_MONTHLY = '% of Monthly Spend'
 }
 
+export enum FundingSource {
+  EQUITY = 'Equity',
+  SENIOR = 'Senior Debt',
+  MEZZANINE = 'Mezzanine'
+}
+
+export interface FundingWaterfall {
+  drawOrder: FundingSource[];
+  repaymentOrder: FundingSource[];
+  debtSweepPct: number; // Share of surplus cash applied to debt each month; the rest is held in the cash account until debt is repaid, and all of it is swept in the final month
+}
+
 export enum InterestRateMode {
   SINGLE = 'Single Rate',
   VARIABLE = 'Variable/Step'
@@ -309,11 +485,14 @@ export enum FeeBase {
 export enum DebtLimitMethod {
   FIXED = 'Fixed Limit',
   LTC = '% of Cost (LTC)',
-  LVR = '% of Value (LVR)'
+  LVR = '% of Value (LVR)',
+  LESSER_OF = 'Lesser of LTC & LVR'
 }
 
 export type RevenueStrategy = 'Sell' | 'Hold';
-export type RevenueCalcMode = 'LUMP_SUM' | 'QUANTITY_RATE';
+export type RevenueCalcMode = 'LUMP_SUM' | 'QUANTITY_RATE' | 'RATE_PER_SQM' | 'RATE_PER_CAR_SPACE';
+// Off-the-plan deposits: held in trust until settlement, or released to the project under a deposit bond/insurance
+export type DepositTreatment = 'TRUST' | 'RELEASED';
 
 export interface LineItem {
   id: string;
@@ -325,10 +504,14 @@ export interface LineItem {
   startDate: number;
   span: number;
   method: DistributionMethod;
-  escalationRate: number;
+  sCurveSteepness?: number; // Logistic k for S-Curve (default 12)
+  milestones?: Record<number, number>; // Relative month -> % of total for Milestone
+  escalationRate?: number; // % p.a.; unset follows the global growth matrix, 0 holds the cost flat
   gstTreatment: GstTreatment;
   linkToMilestone?: MilestoneLink;
   calculationLink?: CalculationLink;
+  specialTag?: LineItemTag; // Selling costs tagged AGENT_FEE or LEGAL_SALES follow the sales programme
+  exchangePct?: number; // AGENT_FEE: share of the commission paid at exchange, the balance at settlement
 }
 
 export interface RevenueItem {
@@ -336,13 +519,22 @@ export interface RevenueItem {
   description: string;
   strategy: RevenueStrategy;
   calcMode: RevenueCalcMode;
-  units: number;
-  pricePerUnit: number;
+  units: number; // Car spaces for RATE_PER_CAR_SPACE items
+  pricePerUnit: number; // The rate: per unit, per sqm NSA or per car space; the whole amount for LUMP_SUM
+  areaSqm?: number; // NSA priced by RATE_PER_SQM items
   offsetFromCompletion: number;
   settlementSpan: number;
   commissionRate: number;
   isTaxable: boolean;
   absorptionRate?: number;
+  preSoldUnits?: number; // Units exchanged off the plan, counted toward lender pre-sale cover
+  isOffThePlan?: boolean; // Exchanged from the sales launch at the absorption rate, settling from completion
+  salesLaunchMonth?: number; // Defaults to construction start
+  depositPct?: number; // Purchaser deposit, % of price (default 10)
+  depositTreatment?: DepositTreatment; // Default TRUST
+  settlementFailurePct?: number; // % of off-the-plan contracts failing at completion; deposit forfeited, unit resold
+  releases?: PriceRelease[]; // Staged price releases, sold in order
+  unitMixId?: string; // Generated from this unit mix row
   weeklyRent?: number;
   opexRate?: number;
   vacancyFactorPct?: number;
@@ -351,6 +543,58 @@ export interface RevenueItem {
   capRate?: number;
 }
 
+export type UnitPricingBasis = 'PER_UNIT' | 'PER_SQM';
+
+// A product type in a scenario's unit mix schedule
+export interface UnitMixRow {
+  id: string;
+  type: string;
+  beds: number;
+  internalSqm: number;
+  externalSqm: number; // Balconies and courtyards, outside NSA
+  carSpaces: number; // Per unit
+  count: number;
+  pricingBasis: UnitPricingBasis;
+  rate: number; // $ per unit, or $ per sqm of internal area
+}
+
+export interface UnitMixSchedule {
+  rows: UnitMixRow[];
+  efficiencyPct: number; // NSA as a % of GFA, used to derive GFA
+}
+
+export interface UnitMixLine extends UnitMixRow {
+  unitPrice: number;
+  totalNsa: number;
+  totalRevenue: number;
+}
+
+export interface UnitMixSummary {
+  lines: UnitMixLine[];
+  totalUnits: number;
+  nsa: number;
+  gfa: number;
+  externalSqm: number;
+  carSpaces: number;
+  grossRevenue: number;
+  averagePrice: number;
+  averageRatePerSqm: number; // Gross revenue per sqm NSA
+}
+
+// A stage of a Sell item released at a premium to the item's base price
+export interface PriceRelease {
+  id: string;
+  label: string;
+  units: number;
+  priceUpliftPct: number;
+}
+
+export interface ReleaseTranche {
+  label: string;
+  units: number;
+  price: number; // Base price per unit after the release uplift, before escalation
+}
+
 export interface CapitalTier {
   rateMode: InterestRateMode;
   interestRate: number;
@@ -359,9 +603,26 @@ export interface CapitalTier {
   establishmentFee: number;
   lineFeePct?: number;
   limitMethod?: DebtLimitMethod;
-  limit?: number;
+  limit?: number; // $ when fixed, otherwise % (the LTC % in lesser-of mode)
+  lvrLimit?: number; // LVR % in lesser-of mode
   activationMonth?: number;
   isInterestCapitalised: boolean;
+  interestReserveMonths?: number; // Months of interest on the limit, reserved at first drawdown
+  covenants?: DebtCovenants;
+}
+
+// Lender covenants, tested monthly on the debt ranking up to and including the tier
+export interface DebtCovenants {
+  maxLtcPct?: number;
+  maxLvrPct?: number;
+  minPresaleCoverPct?: number; // Qualifying pre-sales as a % of debt
+  minIcr?: number; // Hold: NOI / interest, times
+}
+
+export interface JvPromoteTier {
+  id: string;
+  hurdleIrrPct: number; // Partner IRR (p.a.) above which this split applies
+  partnerSharePct: number;
 }
 
 export interface CapitalStack {
@@ -377,10 +638,15 @@ export interface CapitalStack {
   jv: {
     enabled: boolean;
     partnerName: string;
-    equitySplitPct: number;
-    profitSharePct: number;
+    equitySplitPct: number; // Partner's share of equity contributions
+    profitSharePct: number; // Partner's share of profit above the pref, below the first promote hurdle
+    preferredReturnPct?: number; // Pref (p.a.) paid pro rata to capital before the profit split
+    promoteTiers?: JvPromoteTier[];
   };
+  waterfall?: FundingWaterfall;
   surplusInterestRate: number;
+  retainSurplusUntilDebtRepaid?: boolean;
+  asIfCompleteValue?: number; // Lender's "as if complete" valuation for LVR; defaults to gross realisation
 }
 
 export interface FeasibilitySettings {
@@ -416,6 +682,7 @@ export interface FeasibilitySettings {
     holdPeriodYears: number;
     annualCapitalGrowth: number;
     terminalCapRate: number;
+    completionValueBasis?: 'COST' | 'MARKET'; // Asset value carried from completion (default market)
     depreciationSplit: {
       capitalWorksPct: number;
       plantPct: number;
@@ -424,7 +691,9 @@ export interface FeasibilitySettings {
   discountRate: number;
   gstRate: number;
   totalUnits: number;
+  unitMix?: UnitMixSchedule; // When set, drives the Sell revenue items, NSA/GFA and total units
   useMarginScheme: boolean;
+  gstSettlementLag?: number; // Months after quarter end the BAS settles in the cashflow; unset = not modelled
   defaultEscalationRate: number;
   capitalStack: CapitalStack;
 }
@@ -469,16 +738,40 @@ export interface MonthlyFlow {
   netRevenue: number;
   developmentCosts: number;
   gstOnCosts: number;
+  gstSettlement: number; // BAS paid (+) or refunded (-) this month, when GST timing is modelled
+  operatingExpenses: number; // Hold assets: opex deducted from rent
+  netOperatingIncome: number; // Hold assets: effective rent less opex
+  terminalSale: number; // Hold assets: gross sale at the end of the hold period (included in grossRevenue)
+  sellingCommission: number; // Revenue item commission, netted from netRevenue (in costBreakdown under Selling)
+  unitsExchanged: number;
+  unitsSettled: number;
+  preSales: number; // Sell contracts on hand (exchanged, unsettled) at month end
+  preSaleValue: number;
+  depositsReleased: number; // Deposits paid to the project at exchange (included in grossRevenue)
+  depositsHeld: number; // Purchaser deposits held in trust at month end
+  forfeitedDeposits: number; // Deposits kept on failed settlements (included in grossRevenue)
   netCashflow: number;
   drawDownSenior: number;
   repaySenior: number;
   balanceSenior: number;
   interestSenior: number;
+  rateSenior: number; // Annual % applied this month (after variable steps)
   lineFeeSenior: number;
+  establishmentFeeSenior: number;
   drawDownMezz: number;
   repayMezz: number;
   balanceMezz: number;
   interestMezz: number;
+  rateMezz: number;
+  establishmentFeeMezz: number;
+  drawDownInvestment: number; // Takeout loan drawn at the Hold refinance
+  repayInvestment: number;
+  balanceInvestment: number;
+  drawDownReserve: number; // Interest reserves funded from the facilities (included in their balances)
+  reserveInterestPaid: number; // Interest met from the reserves
+  releaseReserve: number; // Unspent reserves released back to the waterfall
+  balanceReserve: number;
+  balanceCash: number; // Surplus retained in the project cash account
   drawDownEquity: number;
   repayEquity: number;
   balanceEquity: number;